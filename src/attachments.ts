@@ -0,0 +1,108 @@
+// built-in-chat/src/attachments.ts
+// Images and audio sent along with a prompt, e.g.
+//   %%chat --image figures/plot.png --audio clips/q.wav
+// Files come from the contents drive; `out:N` takes the image output of the
+// cell with execution count N from the saved notebook.
+
+import { Modality } from "./backends.js";
+
+export interface Attachment {
+  type: Modality;
+  /**
+   * What the user gave: a drive path or `out:N`.
+   */
+  name: string;
+  data: Blob;
+}
+
+/**
+ * Where an attachment comes from, before it is loaded.
+ */
+export interface AttachmentRef {
+  type: Modality;
+  ref: string;
+}
+
+export interface AttachmentFiles {
+  readBinary(path: string): Promise<Blob>;
+  /**
+   * The notebook the kernel runs, as saved on the drive.
+   */
+  readNotebook(): Promise<any>;
+}
+
+const MIME_TYPES: Record<Modality, Record<string, string>> = {
+  image: {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    bmp: "image/bmp",
+  },
+  audio: {
+    wav: "audio/wav",
+    mp3: "audio/mpeg",
+    ogg: "audio/ogg",
+    oga: "audio/ogg",
+    webm: "audio/webm",
+    m4a: "audio/mp4",
+    flac: "audio/flac",
+  },
+};
+
+const OUTPUT_REF = /^out:(\d+)$/;
+
+/**
+ * MIME type of a file of the given modality, from its extension.
+ */
+export function attachmentType(type: Modality, path: string): string {
+  const extension = /\.([^./]+)$/.exec(path)?.[1]?.toLowerCase() ?? "";
+  const mimeType = MIME_TYPES[type][extension];
+  if (!mimeType) {
+    throw new Error(`${path} is not a supported ${type} file. Use one of: ${Object.keys(MIME_TYPES[type]).map(e => `.${e}`).join(", ")}.`);
+  }
+  return mimeType;
+}
+
+function decodeBase64(data: string, type: string): Blob {
+  const bytes = Uint8Array.from(atob(data.replace(/\s/g, "")), c => c.charCodeAt(0));
+  return new Blob([bytes], { type });
+}
+
+// The first image output of the cell with this execution count
+function outputImage(notebook: any, executionCount: number): Blob {
+  const cell = (notebook?.cells ?? []).find((c: any) => c.cell_type === "code" && c.execution_count === executionCount);
+  if (!cell) {
+    throw new Error(`No cell with execution count ${executionCount} in the saved notebook. Save the notebook and try again.`);
+  }
+  for (const output of cell.outputs ?? []) {
+    for (const mimeType of Object.values(MIME_TYPES.image)) {
+      const data = output.data?.[mimeType];
+      if (data) {
+        return decodeBase64(Array.isArray(data) ? data.join("") : data, mimeType);
+      }
+    }
+  }
+  throw new Error(`Cell ${executionCount} has no image output.`);
+}
+
+export async function loadAttachment({ type, ref }: AttachmentRef, files: AttachmentFiles): Promise<Attachment> {
+  const output = OUTPUT_REF.exec(ref);
+  if (output) {
+    if (type !== "image") {
+      throw new Error(`--${type} ${ref}: only image outputs of cells can be attached.`);
+    }
+    return { type, name: ref, data: outputImage(await files.readNotebook(), Number(output[1])) };
+  }
+  const mimeType = attachmentType(type, ref);
+  const blob = await files.readBinary(ref);
+  return { type, name: ref, data: blob.type === mimeType ? blob : new Blob([blob], { type: mimeType }) };
+}
+
+/**
+ * How an attachment appears in the transcript, which keeps text only.
+ */
+export function attachmentNote(attachment: Attachment): string {
+  return `[${attachment.type}: ${attachment.name}]`;
+}
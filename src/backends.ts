@@ -0,0 +1,453 @@
+// built-in-chat/src/backends.ts
+// Chat backends that ChatSession can talk to. Each backend mirrors the small
+// slice of the Chrome Prompt API that the kernel uses, so ChatSession does not
+// care whether replies come from Gemini Nano, a local HTTP server or a mock.
+
+// TypeScript declarations for the Chrome Built-in AI Prompt API
+declare class LanguageModel {
+  static availability(options?: ExpectedIO): Promise<Availability>;
+  static params?(): Promise<{ defaultTemperature: number; defaultTopK: number; maxTopK: number; maxTemperature: number }>;
+  static create(options?: ExpectedIO & {
+    initialPrompts?: PromptMessage[];
+    temperature?: number;
+    topK?: number;
+    signal?: AbortSignal;
+    monitor?: (monitor: DownloadMonitor) => void;
+  }): Promise<LanguageModel>;
+  prompt(input: PromptInput, options?: PromptOptions): Promise<string>;
+  promptStreaming(input: PromptInput, options?: PromptOptions): ReadableStream<string>;
+  clone(options?: { signal?: AbortSignal }): Promise<LanguageModel>;
+  measureInputUsage(input: PromptInput, options?: PromptOptions): Promise<number>;
+  readonly inputUsage: number;
+  readonly inputQuota: number;
+  destroy(): void;
+}
+
+interface ExpectedIO {
+  expectedInputs?: { type: "text" | Modality; languages?: string[] }[];
+  expectedOutputs?: { type: "text"; languages: string[] }[];
+}
+
+/**
+ * Kinds of input a prompt can carry besides text.
+ */
+export type Modality = "image" | "audio";
+
+/**
+ * A prompt with images or audio: one user message whose content mixes text
+ * with Blobs, as the Prompt API takes it.
+ */
+export type PromptInput = string | { role: "user"; content: { type: "text" | Modality; value: string | Blob }[] }[];
+
+/**
+ * The text of a prompt, leaving out any images or audio.
+ */
+export function promptText(input: PromptInput): string {
+  if (typeof input === "string") {
+    return input;
+  }
+  return input
+    .flatMap(m => m.content)
+    .filter(c => c.type === "text")
+    .map(c => c.value)
+    .join("\n\n");
+}
+
+export type Availability = "unavailable" | "available" | "downloadable" | "downloading";
+
+export interface DownloadMonitor {
+  addEventListener: (event: string, callback: (e: ProgressEvent) => void) => void;
+}
+
+export interface PromptMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface SamplingParams {
+  temperature?: number;
+  topK?: number;
+}
+
+export interface BackendSessionOptions extends SamplingParams {
+  /**
+   * System prompt and earlier turns to seed the new session with.
+   */
+  initialPrompts?: PromptMessage[];
+  /**
+   * Called with a monitor that fires `downloadprogress` events while the
+   * backend fetches its model.
+   */
+  monitor?: (monitor: DownloadMonitor) => void;
+  /**
+   * Aborts session creation, e.g. while the model is still downloading.
+   */
+  signal?: AbortSignal;
+  /**
+   * Input types besides text the session must accept. The Prompt API
+   * rejects images and audio sent to a session not created for them.
+   */
+  expectedInputs?: Modality[];
+}
+
+export interface PromptOptions {
+  signal?: AbortSignal;
+  /**
+   * JSON Schema the reply must match. Backends that cannot enforce it
+   * ignore it; callers validate the reply themselves.
+   */
+  responseConstraint?: object;
+}
+
+/**
+ * A stateful conversation with a backend.
+ */
+export interface BackendSession {
+  promptStreaming(input: PromptInput, options?: PromptOptions): ReadableStream<string>;
+  /**
+   * Copy the session at its current point, context included.
+   */
+  clone?(): Promise<BackendSession>;
+  /**
+   * Tokens of context used so far, and the most the session can hold.
+   * Backends that cannot tell leave these undefined.
+   */
+  readonly inputUsage?: number;
+  readonly inputQuota?: number;
+  /**
+   * Tokens `input` would take up if prompted now.
+   */
+  measureInputUsage?(input: PromptInput): Promise<number>;
+  destroy(): void;
+}
+
+export interface ChatBackend {
+  /**
+   * Short identifier used in model specs, e.g. "chrome" or "openai".
+   */
+  readonly name: string;
+  /**
+   * Human-readable name for logs and error messages.
+   */
+  readonly label: string;
+  /**
+   * Input types besides text that prompts to this backend may carry.
+   */
+  readonly modalities: Modality[];
+  /**
+   * Whether the model can be used, and with `inputs` as well as text.
+   */
+  availability(inputs?: Modality[]): Promise<Availability>;
+  /**
+   * Sampling defaults the backend uses when none are given, if it reports them.
+   */
+  defaults(): Promise<SamplingParams>;
+  create(options?: BackendSessionOptions): Promise<BackendSession>;
+}
+
+export interface BackendOptions {
+  /**
+   * Model spec of the form `<backend>` or `<backend>:<model>`,
+   * e.g. "chrome", "mock" or "openai:llama3.2".
+   */
+  model?: string;
+  /**
+   * Base URL of an OpenAI-compatible API, used by the "openai" backend.
+   */
+  endpoint?: string;
+  /**
+   * Bearer token for the "openai" backend, if the server wants one.
+   */
+  apiKey?: string;
+  /**
+   * Languages (BCP 47) the prompts and replies will be in, so Chrome can
+   * check it supports them before creating a session.
+   */
+  expectedInputLanguages?: string[];
+  expectedOutputLanguages?: string[];
+}
+
+export const DEFAULT_OPENAI_ENDPOINT = "http://localhost:11434/v1";
+export const DEFAULT_OPENAI_MODEL = "llama3.2";
+
+// --- Chrome built-in AI ---
+
+export class ChromeBackend implements ChatBackend {
+  readonly name = "chrome";
+  readonly label = "Chrome built-in AI";
+  readonly modalities: Modality[] = ["image", "audio"];
+  private expected: ExpectedIO = {};
+
+  constructor(options: Pick<BackendOptions, "expectedInputLanguages" | "expectedOutputLanguages"> = {}) {
+    const { expectedInputLanguages: inputs, expectedOutputLanguages: outputs } = options;
+    if (inputs?.length) {
+      this.expected.expectedInputs = [{ type: "text", languages: inputs }];
+    }
+    if (outputs?.length) {
+      this.expected.expectedOutputs = [{ type: "text", languages: outputs }];
+    }
+  }
+
+  async availability(inputs: Modality[] = []): Promise<Availability> {
+    if (typeof LanguageModel === "undefined") {
+      throw new Error("Browser does not support Chrome built-in AI.");
+    }
+    return LanguageModel.availability(this.expectedWith(inputs));
+  }
+
+  async defaults(): Promise<SamplingParams> {
+    if (typeof LanguageModel === "undefined" || !LanguageModel.params) {
+      return {};
+    }
+    const params = await LanguageModel.params();
+    return { temperature: params.defaultTemperature, topK: params.defaultTopK };
+  }
+
+  async create(options: BackendSessionOptions = {}): Promise<BackendSession> {
+    // The Prompt API rejects temperature without topK and vice versa
+    if ((options.temperature === undefined) !== (options.topK === undefined)) {
+      const defaults = await this.defaults();
+      options = {
+        ...options,
+        temperature: options.temperature ?? defaults.temperature,
+        topK: options.topK ?? defaults.topK,
+      };
+    }
+    const { expectedInputs = [], ...rest } = options;
+    return LanguageModel.create({ ...this.expectedWith(expectedInputs), ...rest });
+  }
+
+  // Text is always expected, with its languages if any were given
+  private expectedWith(inputs: Modality[]): ExpectedIO {
+    if (!inputs.length) {
+      return this.expected;
+    }
+    const text = this.expected.expectedInputs ?? [{ type: "text" }];
+    return { ...this.expected, expectedInputs: [...text, ...inputs.map(type => ({ type }))] };
+  }
+}
+
+// --- OpenAI-compatible HTTP (llama.cpp, Ollama, ...) ---
+
+class OpenAISession implements BackendSession {
+  private messages: PromptMessage[];
+
+  constructor(private backend: OpenAIBackend, private options: BackendSessionOptions) {
+    this.messages = [...(options.initialPrompts ?? [])];
+  }
+
+  promptStreaming(prompt: PromptInput, options: PromptOptions = {}): ReadableStream<string> {
+    const backend = this.backend;
+    const input = promptText(prompt);
+    const messages = this.messages;
+    const { temperature, topK } = this.options;
+    const { responseConstraint } = options;
+    const controller = new AbortController();
+    options.signal?.addEventListener("abort", () => controller.abort(), { once: true });
+    const pending: PromptMessage[] = [...messages, { role: "user", content: input }];
+    let reply = "";
+
+    return new ReadableStream<string>({
+      async start(stream) {
+        try {
+          const response = await fetch(`${backend.endpoint}/chat/completions`, {
+            method: "POST",
+            headers: backend.headers(),
+            body: JSON.stringify({
+              model: backend.model,
+              messages: pending,
+              stream: true,
+              temperature,
+              // Not part of the OpenAI API, but llama.cpp and Ollama both honour it
+              top_k: topK,
+              response_format: responseConstraint
+                ? { type: "json_schema", json_schema: { name: "reply", schema: responseConstraint } }
+                : undefined,
+            }),
+            signal: controller.signal,
+          });
+          if (!response.ok || !response.body) {
+            throw new Error(`${backend.label} request failed: ${response.status} ${response.statusText}`);
+          }
+
+          // Server-sent events: one `data: {...}` line per delta, `data: [DONE]` at the end
+          const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+          let buffer = "";
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += value;
+            const lines = buffer.split("\n");
+            buffer = lines.pop() ?? "";
+            for (const line of lines) {
+              const data = line.trim().replace(/^data:\s*/, "");
+              if (!data || data === "[DONE]" || !line.trim().startsWith("data:")) continue;
+              const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+              if (delta) {
+                reply += delta;
+                stream.enqueue(delta);
+              }
+            }
+          }
+
+          // Only commit the turn to the transcript once the reply is complete
+          messages.push({ role: "user", content: input }, { role: "assistant", content: reply });
+          stream.close();
+        } catch (err) {
+          if (!controller.signal.aborted) {
+            stream.error(err);
+          }
+        }
+      },
+      cancel() {
+        controller.abort();
+      },
+    });
+  }
+
+  async clone(): Promise<BackendSession> {
+    return new OpenAISession(this.backend, { ...this.options, initialPrompts: this.messages });
+  }
+
+  destroy(): void {
+    this.messages = [];
+  }
+}
+
+export class OpenAIBackend implements ChatBackend {
+  readonly name = "openai";
+  readonly label = "OpenAI-compatible endpoint";
+  readonly modalities: Modality[] = [];
+  readonly endpoint: string;
+  readonly model: string;
+  private apiKey?: string;
+
+  constructor(opts: { endpoint?: string; model?: string; apiKey?: string } = {}) {
+    this.endpoint = (opts.endpoint ?? DEFAULT_OPENAI_ENDPOINT).replace(/\/+$/, "");
+    this.model = opts.model ?? DEFAULT_OPENAI_MODEL;
+    this.apiKey = opts.apiKey;
+  }
+
+  headers(): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  async availability(): Promise<Availability> {
+    try {
+      const response = await fetch(`${this.endpoint}/models`, { headers: this.headers() });
+      return response.ok ? "available" : "unavailable";
+    } catch {
+      return "unavailable";
+    }
+  }
+
+  async defaults(): Promise<SamplingParams> {
+    return {};
+  }
+
+  async create(options: BackendSessionOptions = {}): Promise<BackendSession> {
+    return new OpenAISession(this, options);
+  }
+}
+
+// --- Deterministic mock ---
+
+// The mock counts one token per whitespace-separated word
+function countWords(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+class MockSession implements BackendSession {
+  inputUsage: number;
+
+  constructor(readonly inputQuota: number, initialPrompts: PromptMessage[] = []) {
+    this.inputUsage = initialPrompts.reduce((n, m) => n + countWords(m.content), 0);
+  }
+
+  promptStreaming(prompt: PromptInput, _options: PromptOptions = {}): ReadableStream<string> {
+    const input = promptText(prompt);
+    // Split on word boundaries, keeping whitespace, so chunks join back to the input
+    const chunks = input.match(/\s*\S+\s*/g) ?? [];
+    this.inputUsage += 2 * countWords(input);
+    return new ReadableStream<string>({
+      pull(stream) {
+        const chunk = chunks.shift();
+        if (chunk === undefined) {
+          stream.close();
+        } else {
+          stream.enqueue(chunk);
+        }
+      },
+    });
+  }
+
+  async measureInputUsage(input: PromptInput): Promise<number> {
+    return countWords(promptText(input));
+  }
+
+  async clone(): Promise<BackendSession> {
+    const copy = new MockSession(this.inputQuota);
+    copy.inputUsage = this.inputUsage;
+    return copy;
+  }
+
+  destroy(): void {}
+}
+
+export class MockBackend implements ChatBackend {
+  readonly name = "mock";
+  readonly label = "Mock echo backend";
+  readonly modalities: Modality[] = [];
+
+  /**
+   * @param inputQuota Context size reported by mock sessions, in words.
+   */
+  constructor(private inputQuota = 4096) {}
+
+  async availability(): Promise<Availability> {
+    return "available";
+  }
+
+  async defaults(): Promise<SamplingParams> {
+    return {};
+  }
+
+  async create(options: BackendSessionOptions = {}): Promise<BackendSession> {
+    return new MockSession(this.inputQuota, options.initialPrompts);
+  }
+}
+
+/**
+ * Build a backend from a model spec such as "chrome", "mock" or "openai:llama3.2".
+ * Defaults to Chrome built-in AI.
+ */
+export function createBackend(opts: BackendOptions = {}): ChatBackend {
+  const spec = opts.model ?? "chrome";
+  const sep = spec.indexOf(":");
+  const name = sep === -1 ? spec : spec.slice(0, sep);
+  const model = sep === -1 ? undefined : spec.slice(sep + 1);
+
+  switch (name) {
+    case "chrome":
+      return new ChromeBackend(opts);
+    case "openai":
+      return new OpenAIBackend({ endpoint: opts.endpoint, model, apiKey: opts.apiKey });
+    case "mock":
+      return new MockBackend();
+    default:
+      throw new Error(`Unknown chat backend "${name}". Expected one of: chrome, openai, mock.`);
+  }
+}
+
+/**
+ * Kernelspecs registered by the plugin, one per backend a user would pick
+ * from the launcher. The mock backend is only reachable via `model: "mock"`.
+ */
+export const BACKEND_KERNELSPECS = [
+  { name: "built-in-chat", display_name: "Built-in AI Chat", model: "chrome" },
+  { name: "built-in-chat-openai", display_name: "Local AI Chat (OpenAI-compatible)", model: "openai" },
+];
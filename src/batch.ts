@@ -0,0 +1,296 @@
+// built-in-chat/src/batch.ts
+// `%%batch` runs one prompt template over every row of a CSV or JSON Lines
+// file. Each row gets its own session, so rows cannot see each other's
+// answers. Results are saved to the drive as rows finish; a run that stops
+// part way can pick up where it left off with `--resume`.
+
+import { ChatSession, SendOptions } from "./chat.js";
+import { ChatInterruptedError } from "./errors.js";
+import { MimeBundle } from "./render.js";
+
+/**
+ * How each row's session starts: empty apart from the system prompt and
+ * sampling parameters, or as a copy of the cell's conversation.
+ */
+export type BatchSession = "fresh" | "clone";
+
+export const BATCH_SESSIONS: BatchSession[] = ["fresh", "clone"];
+
+export interface BatchJob {
+  /**
+   * Data file, relative to the notebook.
+   */
+  input: string;
+  /**
+   * Results file, relative to the notebook; same format as the input.
+   */
+  output: string;
+  session: BatchSession;
+  /**
+   * Rows prompted at the same time.
+   */
+  concurrency: number;
+  /**
+   * Keep the rows that already have a reply in the results file.
+   */
+  resume: boolean;
+}
+
+export interface BatchFiles {
+  readFile(path: string): Promise<string>;
+  writeFile(path: string, content: string): Promise<void>;
+}
+
+export interface BatchRow {
+  /**
+   * Position in the data file, from 1.
+   */
+  row: number;
+  values: Record<string, string>;
+  reply: string;
+  error: string;
+}
+
+export interface BatchProgressInfo {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export interface BatchOptions extends SendOptions {
+  onProgress?: (progress: BatchProgressInfo) => void;
+}
+
+export interface BatchResult {
+  job: BatchJob;
+  columns: string[];
+  rows: BatchRow[];
+  /**
+   * Rows taken from an earlier run's results.
+   */
+  resumed: number;
+}
+
+const PLACEHOLDER = /\{(\w[\w -]*)\}/g;
+
+/**
+ * Default results path: data/items.csv gives data/items.results.csv.
+ */
+export function resultsPath(input: string): string {
+  const dot = input.lastIndexOf(".");
+  return dot > input.lastIndexOf("/") ? `${input.slice(0, dot)}.results${input.slice(dot)}` : `${input}.results`;
+}
+
+function isJSONLines(path: string): boolean {
+  return /\.jsonl$/i.test(path);
+}
+
+/**
+ * Parse RFC 4180 CSV with a header row.
+ */
+export function parseCSV(text: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header = [], ...rows] = records.filter(r => r.some(Boolean));
+  return rows.map(r => Object.fromEntries(header.map((name, i) => [name.trim(), r[i] ?? ""])));
+}
+
+export function formatCSV(columns: string[], rows: Record<string, string>[]): string {
+  const escape = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  return [columns, ...rows.map(r => columns.map(c => r[c] ?? ""))].map(r => r.map(escape).join(",")).join("\n") + "\n";
+}
+
+function parseJSONLines(text: string): Record<string, string>[] {
+  return text
+    .split("\n")
+    .filter(line => line.trim())
+    .map((line, i) => {
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${i + 1} is not JSON.`);
+      }
+      if (!record || typeof record !== "object" || Array.isArray(record)) {
+        throw new Error(`Line ${i + 1} is not a JSON object.`);
+      }
+      return Object.fromEntries(
+        Object.entries(record).map(([k, v]) => [k, typeof v === "string" ? v : JSON.stringify(v)])
+      );
+    });
+}
+
+export function parseRows(path: string, text: string): Record<string, string>[] {
+  return isJSONLines(path) ? parseJSONLines(text) : parseCSV(text);
+}
+
+/**
+ * Fill `{column}` placeholders from a row.
+ */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (_, name: string) => values[name.trim()]);
+}
+
+/**
+ * Check every placeholder of the template names a column.
+ */
+function checkTemplate(template: string, columns: string[]): void {
+  const unknown = [...template.matchAll(PLACEHOLDER)].map(m => m[1].trim()).filter(name => !columns.includes(name));
+  if (unknown.length) {
+    throw new Error(`No column named ${unknown.map(n => `"${n}"`).join(", ")}. Columns: ${columns.join(", ")}.`);
+  }
+}
+
+function formatResults(job: BatchJob, columns: string[], rows: BatchRow[]): string {
+  const records = rows.map(r => ({ row: String(r.row), ...r.values, reply: r.reply, error: r.error }));
+  if (isJSONLines(job.output)) {
+    return records.map(r => JSON.stringify(r)).join("\n") + "\n";
+  }
+  return formatCSV(["row", ...columns, "reply", "error"], records);
+}
+
+// Replies from an earlier run, by row number
+async function earlierReplies(job: BatchJob, files: BatchFiles): Promise<Map<number, string>> {
+  let text: string;
+  try {
+    text = await files.readFile(job.output);
+  } catch {
+    return new Map();
+  }
+  const done = parseRows(job.output, text).filter(r => r.reply && !r.error);
+  return new Map(done.map(r => [Number(r.row), r.reply]));
+}
+
+async function rowSession(chat: ChatSession, session: BatchSession): Promise<ChatSession> {
+  if (session === "clone") {
+    return chat.fork();
+  }
+  return new ChatSession({ backend: chat.backend, systemPrompt: chat.system, cache: chat.cache, ...chat.sampling });
+}
+
+/**
+ * Prompt every row of the job's data file. Failed rows are kept with their
+ * error; an interrupt saves what is done and rejects with a
+ * ChatInterruptedError.
+ */
+export async function runBatch(
+  job: BatchJob,
+  template: string,
+  chat: ChatSession,
+  files: BatchFiles,
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  const { onProgress, ...sendOptions } = options;
+  const { signal } = sendOptions;
+  const data = parseRows(job.input, await files.readFile(job.input));
+  if (!data.length) {
+    throw new Error(`${job.input} has no rows.`);
+  }
+  const columns = Object.keys(data[0]);
+  checkTemplate(template, columns);
+
+  const earlier = job.resume ? await earlierReplies(job, files) : new Map<number, string>();
+  const rows: BatchRow[] = data.map((values, i) => ({ row: i + 1, values, reply: earlier.get(i + 1) ?? "", error: "" }));
+  const todo = rows.filter(r => !earlier.has(r.row));
+  const progress = { done: rows.length - todo.length, total: rows.length, failed: 0 };
+  onProgress?.({ ...progress });
+
+  // Saves happen one at a time, each with every row finished so far
+  let saving = Promise.resolve();
+  const save = () => (saving = saving.then(() => files.writeFile(job.output, formatResults(job, columns, rows))));
+
+  let next = 0;
+  const worker = async () => {
+    while (next < todo.length && !signal?.aborted) {
+      const row = todo[next++];
+      const session = await rowSession(chat, job.session);
+      try {
+        row.reply = await session.send(fillTemplate(template, row.values), undefined, sendOptions);
+      } catch (err: any) {
+        if (signal?.aborted) {
+          return;
+        }
+        row.error = String(err?.message ?? err);
+        progress.failed += 1;
+      } finally {
+        session.destroy();
+      }
+      progress.done += 1;
+      onProgress?.({ ...progress });
+      await save();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(job.concurrency, todo.length) }, worker));
+  await save();
+
+  if (signal?.aborted) {
+    throw new ChatInterruptedError("");
+  }
+  return { job, columns, rows, resumed: rows.length - todo.length };
+}
+
+export function batchProgressText({ done, total, failed }: BatchProgressInfo): string {
+  return `Batch: ${done} of ${total} rows${failed ? `, ${failed} failed` : ""}`;
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/[&<>"]/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]!);
+}
+
+/**
+ * The results as an HTML table, with a plain-text summary.
+ */
+export function batchBundle({ job, columns, rows, resumed }: BatchResult): MimeBundle {
+  const failed = rows.filter(r => r.error).length;
+  const summary = [
+    `${rows.length - failed} of ${rows.length} rows answered`,
+    resumed ? ` (${resumed} from an earlier run)` : "",
+    `; results saved to ${job.output}.`,
+    failed ? ` ${failed} failed; run again with --resume to retry them.` : "",
+  ].join("");
+  const head = ["#", ...columns, "reply"].map(c => `<th>${escapeHTML(c)}</th>`).join("");
+  const body = rows
+    .map(r => {
+      const reply = r.error ? `<em>Error: ${escapeHTML(r.error)}</em>` : escapeHTML(r.reply);
+      const cells = [String(r.row), ...columns.map(c => r.values[c])].map(v => `<td>${escapeHTML(v)}</td>`);
+      return `<tr>${cells.join("")}<td style="white-space: pre-wrap; text-align: left">${reply}</td></tr>`;
+    })
+    .join("\n");
+  return {
+    "text/html": `<p>${escapeHTML(summary)}</p>\n<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`,
+    "text/plain": summary,
+  };
+}
@@ -0,0 +1,14 @@
+// built-in-chat/src/build-info.ts
+// Generated from package.json by `npm run build:info`; do not edit.
+
+import { KernelBuild } from "./kernel.js";
+
+export const KERNEL_BUILD: KernelBuild = {
+  "version": "0.2.6dev7",
+  "capabilities": [
+    "comms",
+    "stdin",
+    "history",
+    "interrupt"
+  ]
+};
@@ -0,0 +1,194 @@
+// built-in-chat/src/cache.ts
+// Record and replay of model replies. In "record" mode every reply is saved
+// under a key made from the conversation so far, the prompt and the sampling
+// parameters. In "replay" mode replies come from the cache alone and are
+// streamed back at reading pace, so a notebook re-runs the same way without
+// the model. The cache lives in IndexedDB, or in a JSON file on the drive
+// that can be published along with the notebook.
+
+import { PromptMessage, SamplingParams } from "./backends.js";
+import { ChatInterruptedError } from "./errors.js";
+import { get, hasIndexedDB, put } from "./idb.js";
+
+export type CacheMode = "off" | "record" | "replay";
+
+export const CACHE_MODES: CacheMode[] = ["off", "record", "replay"];
+
+export interface CachedReply {
+  id: string;
+  /**
+   * The prompt, to make cache files readable; lookups go by id.
+   */
+  prompt: string;
+  reply: string;
+  created: string;
+}
+
+export interface CacheStore {
+  /**
+   * Where the cache is kept, for %cache.
+   */
+  readonly label: string;
+  get(id: string): Promise<CachedReply | undefined>;
+  put(entry: CachedReply): Promise<void>;
+}
+
+/**
+ * Everything a reply depends on.
+ */
+export interface CacheKeyParts extends SamplingParams {
+  backend: string;
+  /**
+   * The session's initial prompts and turns before this prompt.
+   */
+  context: PromptMessage[];
+  prompt: string;
+  responseConstraint?: object;
+}
+
+// Characters per replayed chunk, and the pause between chunks
+const REPLAY_CHUNK = 24;
+const REPLAY_DELAY_MS = 15;
+
+class IndexedDBCacheStore implements CacheStore {
+  readonly label = "IndexedDB";
+
+  async get(id: string): Promise<CachedReply | undefined> {
+    return get<CachedReply>("cache", id);
+  }
+
+  async put(entry: CachedReply): Promise<void> {
+    await put("cache", entry);
+  }
+}
+
+// Used where IndexedDB is missing, e.g. under Node
+class MemoryCacheStore implements CacheStore {
+  readonly label = "memory";
+  private entries = new Map<string, CachedReply>();
+
+  async get(id: string): Promise<CachedReply | undefined> {
+    return this.entries.get(id);
+  }
+
+  async put(entry: CachedReply): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+}
+
+export function cacheStore(): CacheStore {
+  return hasIndexedDB() ? new IndexedDBCacheStore() : new MemoryCacheStore();
+}
+
+/**
+ * A cache kept as one JSON file, read on first use and rewritten after each
+ * new reply.
+ */
+export class FileCacheStore implements CacheStore {
+  private entries: Promise<Record<string, CachedReply>> | null = null;
+  private saving = Promise.resolve();
+
+  constructor(
+    readonly path: string,
+    private files: { readFile(path: string): Promise<string>; writeFile(path: string, content: string): Promise<void> }
+  ) {}
+
+  get label(): string {
+    return this.path;
+  }
+
+  async get(id: string): Promise<CachedReply | undefined> {
+    return (await this.load())[id];
+  }
+
+  async put(entry: CachedReply): Promise<void> {
+    const entries = await this.load();
+    entries[entry.id] = entry;
+    this.saving = this.saving.then(() => this.files.writeFile(this.path, JSON.stringify({ replies: entries }, null, 1)));
+    await this.saving;
+  }
+
+  private load(): Promise<Record<string, CachedReply>> {
+    if (!this.entries) {
+      // A missing file is an empty cache; it is created on the first reply
+      this.entries = this.files.readFile(this.path).then(
+        text => JSON.parse(text).replies ?? {},
+        () => ({})
+      );
+    }
+    return this.entries;
+  }
+}
+
+/**
+ * 53-bit string hash (cyrb53). crypto.subtle would do, but it is missing
+ * outside secure contexts, where JupyterLite sites are often served.
+ */
+function hash(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export function cacheKey(parts: CacheKeyParts): string {
+  const { backend, context, prompt, temperature, topK, responseConstraint } = parts;
+  // Fixed key order, so equal parts always give the same JSON
+  return hash(JSON.stringify([backend, context, prompt, temperature ?? null, topK ?? null, responseConstraint ?? null]));
+}
+
+/**
+ * Stream a cached reply in small pieces, like a model would.
+ */
+export function replayStream(text: string, signal?: AbortSignal): ReadableStream<string> {
+  let offset = 0;
+  return new ReadableStream<string>({
+    async pull(controller) {
+      if (offset >= text.length) {
+        controller.close();
+        return;
+      }
+      if (offset > 0) {
+        await new Promise(resolve => setTimeout(resolve, REPLAY_DELAY_MS));
+      }
+      if (signal?.aborted) {
+        controller.error(new ChatInterruptedError(""));
+        return;
+      }
+      controller.enqueue(text.slice(offset, offset + REPLAY_CHUNK));
+      offset += REPLAY_CHUNK;
+    },
+  });
+}
+
+/**
+ * The kernel's reply cache: a mode plus where entries are kept.
+ */
+export class ReplyCache {
+  mode: CacheMode = "off";
+
+  constructor(public store: CacheStore = cacheStore()) {}
+
+  /**
+   * The cached reply for `id`; in replay mode a miss is an error.
+   */
+  async lookup(id: string): Promise<string> {
+    const entry = await this.store.get(id);
+    if (!entry) {
+      throw new Error(
+        `No cached reply for this prompt in ${this.store.label}. Record one with %cache record, or use %cache off.`
+      );
+    }
+    return entry.reply;
+  }
+
+  async save(id: string, prompt: string, reply: string): Promise<void> {
+    await this.store.put({ id, prompt, reply, created: new Date().toISOString() });
+  }
+}
@@ -0,0 +1,490 @@
+// built-in-chat/src/chat.ts
+import {
+  Availability,
+  BackendOptions,
+  BackendSession,
+  ChatBackend,
+  Modality,
+  PromptInput,
+  PromptMessage,
+  PromptOptions,
+  SamplingParams,
+  createBackend,
+} from "./backends.js";
+import { Attachment, attachmentNote } from "./attachments.js";
+import { ReplyCache, cacheKey, replayStream } from "./cache.js";
+import { ChatInterruptedError, ContextOverflowError, UnsupportedInputError } from "./errors.js";
+import { logger } from "./log.js";
+import { monitorDownload } from "./status.js";
+
+const log = logger("chat");
+
+/**
+ * What to do when a prompt would not fit in the model's context:
+ * - "error" refuses the prompt,
+ * - "sliding" drops the oldest turns until it fits,
+ * - "summarize" condenses older turns into the system prompt of a new session.
+ */
+export type OverflowPolicy = "error" | "sliding" | "summarize";
+
+export const OVERFLOW_POLICIES: OverflowPolicy[] = ["error", "sliding", "summarize"];
+
+export interface ContextUsage {
+  /**
+   * Tokens used by the live session, if the backend reports it.
+   */
+  used?: number;
+  quota?: number;
+}
+
+// Turns kept verbatim when older ones are summarized
+const SUMMARY_KEEP_MESSAGES = 4;
+
+const SUMMARY_INSTRUCTIONS =
+  "Summarize the conversation below in a few short paragraphs. Keep names, facts, decisions and open questions; drop pleasantries.";
+
+export interface SendOptions extends PromptOptions {
+  /**
+   * Called with download progress (0 to 1) if the model has to be fetched
+   * before the session can start.
+   */
+  onDownloadProgress?: (loaded: number) => void;
+  /**
+   * Called with how long creating the backend session took, in
+   * milliseconds, when a prompt had to start one.
+   */
+  onSessionCreated?: (ms: number) => void;
+  /**
+   * Images and audio to send with the prompt. The transcript keeps only a
+   * note of each, so later turns and restored sessions see text alone.
+   */
+  attachments?: Attachment[];
+}
+
+export interface ChatSessionOptions extends BackendOptions, SamplingParams {
+  /**
+   * Use this backend instead of building one from `model`.
+   */
+  backend?: ChatBackend;
+  /**
+   * System prompt sent as the first of the session's `initialPrompts`.
+   */
+  systemPrompt?: string;
+  /**
+   * Overflow policy; defaults to "sliding".
+   */
+  overflow?: OverflowPolicy;
+  /**
+   * Record replies to, or replay them from, this cache as its mode says.
+   */
+  cache?: ReplyCache;
+}
+
+/**
+ * Receives each streamed delta. Returning a promise pauses reading until it
+ * settles; throwing a ChatInterruptedError stops the stream there.
+ */
+export type ChunkHandler = (chunk: string) => void | Promise<void>;
+
+/**
+ * Read a stream of text deltas to the end. Aborting `signal` cancels the
+ * stream and rejects with a ChatInterruptedError holding what was read.
+ */
+export async function readStream(
+  stream: ReadableStream<string>,
+  onChunk?: ChunkHandler,
+  signal?: AbortSignal
+): Promise<string> {
+  let text = "";
+  const reader = stream.getReader();
+  // Cancelling the reader ends the pending read() with done: true
+  const cancel = () => {
+    reader.cancel().catch(() => {});
+  };
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text += value;
+      if (onChunk && value) {
+        await onChunk(value);
+      }
+    }
+  } catch (err) {
+    if (err instanceof ChatInterruptedError) {
+      cancel();
+      throw new ChatInterruptedError(text);
+    }
+    if (!signal?.aborted) {
+      cancel();
+      throw err;
+    }
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    reader.releaseLock();
+  }
+
+  if (signal?.aborted) {
+    throw new ChatInterruptedError(text);
+  }
+  return text;
+}
+
+// ChatSession holds one conversation with whichever backend the kernel picked.
+// The backend session is created lazily and recreated from the transcript
+// whenever the system prompt or sampling parameters change.
+export class ChatSession {
+  readonly backend: ChatBackend;
+  readonly cache?: ReplyCache;
+  private session: BackendSession | null = null;
+  private systemPrompt: string;
+  private params: SamplingParams;
+  private turns: PromptMessage[] = [];
+  // Input types besides text the session was created for
+  private inputs: Modality[] = [];
+  // Condensed form of turns dropped by the "summarize" overflow policy
+  private summary = "";
+  overflow: OverflowPolicy;
+
+  constructor(opts: ChatSessionOptions = {}) {
+    this.backend = opts.backend ?? createBackend(opts);
+    this.systemPrompt = opts.systemPrompt ?? "";
+    this.params = { temperature: opts.temperature, topK: opts.topK };
+    this.overflow = opts.overflow ?? "sliding";
+    this.cache = opts.cache;
+    log.info(`Using ${this.backend.label}`);
+  }
+
+  get system(): string {
+    return this.systemPrompt;
+  }
+
+  get sampling(): SamplingParams {
+    return { ...this.params };
+  }
+
+  /**
+   * Number of completed prompt/reply pairs in this conversation.
+   */
+  get turnCount(): number {
+    return this.turns.length / 2;
+  }
+
+  /**
+   * The conversation so far, as alternating user and assistant messages.
+   */
+  get messages(): PromptMessage[] {
+    return [...this.turns];
+  }
+
+  /**
+   * Condensed form of turns the "summarize" policy dropped, if any.
+   */
+  get earlierSummary(): string {
+    return this.summary;
+  }
+
+  /**
+   * Context used by the live session. Empty until the first prompt creates one.
+   */
+  get usage(): ContextUsage {
+    return { used: this.session?.inputUsage, quota: this.session?.inputQuota };
+  }
+
+  /**
+   * Availability of the backend model, or "unavailable" if the backend
+   * cannot be reached at all.
+   */
+  async availability(): Promise<Availability> {
+    try {
+      return await this.backend.availability();
+    } catch {
+      return "unavailable";
+    }
+  }
+
+  /**
+   * Drop the conversation; the next prompt starts a fresh session.
+   */
+  reset(): void {
+    this.turns = [];
+    this.summary = "";
+    this.inputs = [];
+    this.dropSession();
+  }
+
+  /**
+   * Copy this conversation at its current point. Backends that can clone
+   * their session hand over the live context; others replay the transcript.
+   */
+  async fork(): Promise<ChatSession> {
+    const copy = new ChatSession({
+      backend: this.backend,
+      systemPrompt: this.systemPrompt,
+      overflow: this.overflow,
+      cache: this.cache,
+      ...this.params,
+    });
+    copy.turns = [...this.turns];
+    copy.summary = this.summary;
+    copy.inputs = [...this.inputs];
+    if (this.session?.clone) {
+      copy.session = await this.session.clone();
+    }
+    return copy;
+  }
+
+  /**
+   * Replace the transcript, e.g. with one restored from history. The next
+   * prompt recreates the session with these turns as initialPrompts.
+   */
+  load(turns: PromptMessage[], summary = ""): void {
+    this.turns = [...turns];
+    this.summary = summary;
+    this.dropSession();
+  }
+
+  /**
+   * Set the system prompt, keeping earlier turns.
+   */
+  setSystemPrompt(prompt: string): void {
+    this.systemPrompt = prompt.trim();
+    this.dropSession();
+  }
+
+  /**
+   * Change sampling parameters, keeping earlier turns.
+   */
+  setSampling(params: SamplingParams): void {
+    this.params = { ...this.params, ...params };
+    this.dropSession();
+  }
+
+  /**
+   * Start the backend session now, downloading the model if needed, so the
+   * next prompt does not have to wait. Resolves with the availability found.
+   */
+  async prepare(options: SendOptions = {}): Promise<Availability> {
+    const { signal, onDownloadProgress, onSessionCreated } = options;
+    const availability = await this.backend.availability(this.inputs);
+    if (availability === "unavailable") {
+      if (this.inputs.length && (await this.backend.availability()) !== "unavailable") {
+        throw new UnsupportedInputError(
+          `${this.backend.label} cannot take ${this.inputs.join(" and ")} input in this browser.` +
+            (this.backend.name === "chrome" ? " Multimodal prompts need chrome://flags/#prompt-api-for-gemini-nano-multimodal-input enabled." : "")
+        );
+      }
+      throw new Error(`${this.backend.label} model is not available.`);
+    }
+    // Create session if not already created, with progress monitoring
+    if (!this.session) {
+      const started = performance.now();
+      this.session = await this.createSession(availability, signal, onDownloadProgress);
+      const ms = performance.now() - started;
+      log.debug("Session created", { backend: this.backend.name, availability, ms });
+      onSessionCreated?.(ms);
+    }
+    return availability;
+  }
+
+  /**
+   * Send a prompt and stream the reply. Aborting `options.signal` cancels the
+   * stream and rejects with a ChatInterruptedError holding the partial reply.
+   * A cache in replay mode answers instead of the model.
+   */
+  async send(prompt: string, onChunk?: ChunkHandler, options: SendOptions = {}): Promise<string> {
+    const { signal, onDownloadProgress, onSessionCreated, attachments = [], ...promptOptions } = options;
+    if (signal?.aborted) {
+      throw new ChatInterruptedError("");
+    }
+    this.expectInputs(attachments);
+    const input: PromptInput = attachments.length
+      ? [{ role: "user", content: [{ type: "text", value: prompt }, ...attachments.map(a => ({ type: a.type, value: a.data }))] }]
+      : prompt;
+    // What the transcript and the cache know the prompt by
+    const text = [prompt, ...attachments.map(attachmentNote)].join("\n\n");
+
+    const cache = this.cache?.mode === "off" ? undefined : this.cache;
+    // Keyed by the context the model sees, so computed after any overflow
+    // policy has trimmed or summarized the transcript
+    const key = () =>
+      cacheKey({
+        backend: this.backend.name,
+        context: this.initialPrompts() ?? [],
+        prompt: text,
+        ...this.params,
+        responseConstraint: promptOptions.responseConstraint,
+      });
+
+    let reply: string;
+    if (cache?.mode === "replay") {
+      // Replay needs no model; a live session would now lag behind the transcript
+      reply = await readStream(replayStream(await cache.lookup(key()), signal), onChunk, signal);
+      this.dropSession();
+    } else {
+      await this.prepare({ signal, onDownloadProgress, onSessionCreated });
+      await this.makeRoom(input, signal);
+      const session = this.session!;
+
+      // Use streaming API - each chunk is a delta (only the new content)
+      const stream = session.promptStreaming(input, { ...promptOptions, signal });
+      reply = await readStream(stream, onChunk, signal);
+      await cache?.save(key(), text, reply).catch(err => log.warn("Could not cache reply", err));
+    }
+    this.turns.push({ role: "user", content: text }, { role: "assistant", content: reply });
+    return reply;
+  }
+
+  /**
+   * Release the backend session, e.g. on kernel shutdown. The transcript is
+   * kept, so a later prompt recreates the session from it.
+   */
+  destroy(): void {
+    this.dropSession();
+  }
+
+  /**
+   * Make sure the session accepts the attachments' input types, recreating
+   * it with them if it was created for fewer.
+   */
+  private expectInputs(attachments: Attachment[]): void {
+    const missing = [...new Set(attachments.map(a => a.type))].filter(type => !this.inputs.includes(type));
+    if (!missing.length) {
+      return;
+    }
+    const unsupported = missing.filter(type => !this.backend.modalities.includes(type));
+    if (unsupported.length) {
+      throw new UnsupportedInputError(`${this.backend.label} does not take ${unsupported.join(" or ")} input; prompts to it can only be text.`);
+    }
+    log.debug("Recreating session for new input types", { inputs: [...this.inputs, ...missing] });
+    this.inputs = [...this.inputs, ...missing];
+    this.dropSession();
+  }
+
+  /**
+   * Apply the overflow policy if `prompt` would not fit in what is left of
+   * the session's context. Backends that do not report usage are trusted.
+   */
+  private async makeRoom(prompt: PromptInput, signal?: AbortSignal): Promise<void> {
+    const fits = async () => {
+      const { inputUsage, inputQuota } = this.session!;
+      if (inputUsage === undefined || inputQuota === undefined || !this.session!.measureInputUsage) {
+        return true;
+      }
+      const needed = await this.session!.measureInputUsage(prompt);
+      if (needed > inputQuota) {
+        throw new ContextOverflowError(`Prompt needs ${needed} tokens but the model's context holds only ${inputQuota}.`);
+      }
+      return inputUsage + needed <= inputQuota;
+    };
+
+    if (await fits()) {
+      return;
+    }
+    // fits() only says no when the session reports both numbers
+    const { used = 0, quota = 0 } = this.usage;
+    log.info(`Context is full (${used}/${quota}), applying "${this.overflow}" policy`);
+
+    if (this.overflow === "error") {
+      throw new ContextOverflowError(
+        `Prompt does not fit in the ${quota - used} tokens of context left (${used}/${quota} used). ` +
+          "Use %reset, or %overflow sliding or summarize."
+      );
+    }
+
+    if (this.overflow === "summarize" && this.turns.length > SUMMARY_KEEP_MESSAGES) {
+      await this.summarizeOlderTurns(signal);
+      this.dropSession();
+      this.session = await this.createSession("available", signal);
+      if (await fits()) {
+        return;
+      }
+    }
+
+    // Sliding window: drop the oldest exchange until the prompt fits
+    while (this.turns.length) {
+      this.turns.splice(0, 2);
+      this.dropSession();
+      this.session = await this.createSession("available", signal);
+      if (await fits()) {
+        return;
+      }
+    }
+    throw new ContextOverflowError("Prompt does not fit in the model's context even with an empty conversation.");
+  }
+
+  private async summarizeOlderTurns(signal?: AbortSignal): Promise<void> {
+    const older = this.turns.slice(0, -SUMMARY_KEEP_MESSAGES);
+    const text = [
+      this.summary ? `Earlier summary:\n${this.summary}` : "",
+      ...older.map(m => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const helper = await this.backend.create({
+      initialPrompts: [{ role: "system", content: SUMMARY_INSTRUCTIONS }],
+      signal,
+    });
+    try {
+      const summary = await readStream(helper.promptStreaming(text, { signal }), undefined, signal);
+      this.summary = summary.trim();
+      this.turns = this.turns.slice(-SUMMARY_KEEP_MESSAGES);
+    } finally {
+      helper.destroy();
+    }
+  }
+
+  private async createSession(
+    availability: Availability,
+    signal?: AbortSignal,
+    onDownloadProgress?: (loaded: number) => void
+  ): Promise<BackendSession> {
+    // The Prompt API destroys a session when the signal it was created with
+    // aborts, so only link the caller's signal for the duration of create().
+    const creation = new AbortController();
+    const abort = () => creation.abort();
+    signal?.addEventListener("abort", abort, { once: true });
+
+    const options = {
+      ...this.params,
+      initialPrompts: this.initialPrompts(),
+      expectedInputs: this.inputs.length ? [...this.inputs] : undefined,
+      signal: creation.signal,
+    };
+    try {
+      if (availability === "downloadable" || availability === "downloading") {
+        // Model needs to be downloaded, create with progress monitoring
+        return await this.backend.create({ ...options, monitor: monitorDownload(this.backend.label, onDownloadProgress) });
+      }
+      return await this.backend.create(options);
+    } catch (err) {
+      if (signal?.aborted) {
+        throw new ChatInterruptedError("");
+      }
+      throw err;
+    } finally {
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  private initialPrompts(): PromptMessage[] | undefined {
+    const prompts: PromptMessage[] = [];
+    const system = [
+      this.systemPrompt,
+      this.summary ? `Summary of the conversation so far:\n${this.summary}` : "",
+    ].filter(Boolean);
+    if (system.length) {
+      prompts.push({ role: "system", content: system.join("\n\n") });
+    }
+    prompts.push(...this.turns);
+    return prompts.length ? prompts : undefined;
+  }
+
+  private dropSession(): void {
+    this.session?.destroy();
+    this.session = null;
+  }
+}
@@ -0,0 +1,91 @@
+// built-in-chat/src/codeblocks.ts
+// Fenced code in replies, turned into new cells. With `%autoinsert python`,
+// the ```python blocks of a finished reply go back in the execute reply as a
+// `set_next_input` payload, which the frontend inserts below the cell.
+
+export interface CodeBlock {
+  /**
+   * Language from the fence's info string; "" if it has none.
+   */
+  language: string;
+  code: string;
+}
+
+/**
+ * Which fence languages become cells. "*" takes every block, including
+ * ones without a language.
+ */
+export interface AutoInsertSettings {
+  languages: string[];
+}
+
+export interface NextInputPayload {
+  source: "set_next_input";
+  text: string;
+  replace: false;
+  /**
+   * Not part of the protocol; kept so frontends can pick a cell type. The
+   * first block's language when the payload joins several.
+   */
+  language: string;
+}
+
+// Fences the kernel itself speaks with the model, never code for the user
+const INTERNAL_LANGUAGES = ["tool_call", "tool_result"];
+
+const ALIASES: Record<string, string> = {
+  py: "python",
+  python3: "python",
+  js: "javascript",
+  ts: "typescript",
+  sh: "bash",
+  shell: "bash",
+  md: "markdown",
+};
+
+export function normalizeLanguage(language: string): string {
+  const lower = language.toLowerCase();
+  return ALIASES[lower] ?? lower;
+}
+
+/**
+ * Every fenced block of a Markdown reply, in order.
+ */
+export function extractCodeBlocks(markdown: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const lines = markdown.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const open = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/.exec(lines[i]);
+    if (!open) continue;
+    const [, fence, info] = open;
+    const body: string[] = [];
+    // An unclosed fence runs to the end of the reply, as in CommonMark
+    for (i++; i < lines.length; i++) {
+      const close = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(lines[i]);
+      if (close && close[1][0] === fence[0] && close[1].length >= fence.length) break;
+      body.push(lines[i]);
+    }
+    blocks.push({ language: normalizeLanguage(info), code: body.join("\n") });
+  }
+  return blocks.filter(b => !INTERNAL_LANGUAGES.includes(b.language));
+}
+
+/**
+ * The `set_next_input` payload for the blocks of `reply` in the chosen
+ * languages, if any. Frontends only act on the first such payload, so the
+ * blocks are joined into one cell rather than sent one payload each.
+ */
+export function nextInputPayloads(reply: string, settings: AutoInsertSettings): NextInputPayload[] {
+  const { languages } = settings;
+  if (!languages.length) {
+    return [];
+  }
+  const blocks = extractCodeBlocks(reply).filter(
+    b => b.code.trim() && (languages.includes("*") || languages.includes(b.language))
+  );
+  if (!blocks.length) {
+    return [];
+  }
+  const text = blocks.map(b => b.code).join("\n\n");
+  return [{ source: "set_next_input", text, replace: false, language: blocks[0].language }];
+}
@@ -0,0 +1,181 @@
+// built-in-chat/src/comms.ts
+// The `built-in-chat` comm target, so widgets and other kernels' frontends
+// can use the kernel's model without their own Prompt API glue.
+//
+// Open a comm on the target, optionally with `{ conversation: "<name>" }` to
+// share a named conversation with the notebook; otherwise the comm gets a
+// private one. Turns in a shared conversation are kept in the notebook's
+// history like those of cells. Then send
+//   { type: "prompt", id, prompt, schema? }
+// and the kernel answers on the same comm with
+//   { type: "progress", id, loaded }         while the model downloads (0 to 1)
+//   { type: "chunk", id, text }              for each streamed piece
+//   { type: "done", id, reply, value? }      once complete (value for schema prompts)
+//   { type: "error", id, ename, evalue }     if the prompt failed
+// or send { type: "transcript", id } for the conversation so far, answered
+// with { type: "transcript", id, messages: [{ role, content }, ...] }.
+
+import { Conversations } from "./conversations.js";
+import { errorContent } from "./errors.js";
+import { JSONValue } from "./render.js";
+import { sendStructured } from "./schema.js";
+
+export const COMM_TARGET = "built-in-chat";
+
+/**
+ * A finished prompt in a shared conversation, for the kernel to record.
+ */
+export interface CommTurn {
+  conversation: string;
+  prompt: string;
+  reply: string;
+  started: string;
+}
+
+/**
+ * How ChatComms sends messages back; the kernel wires this to handleComm.
+ */
+export type CommSend = (
+  type: "comm_msg" | "comm_close",
+  content: { comm_id: string; data: Record<string, JSONValue> },
+  parentHeader: any
+) => void;
+
+interface OpenComm {
+  conversation: string;
+  // Private conversations end with their comm
+  owned: boolean;
+}
+
+export class ChatComms {
+  private comms = new Map<string, OpenComm>();
+
+  constructor(
+    private conversations: Conversations,
+    private send: CommSend,
+    private onTurn?: (turn: CommTurn) => void
+  ) {}
+
+  open(msg: any): void {
+    const { comm_id, target_name, data = {} } = msg.content;
+    if (target_name !== COMM_TARGET) {
+      // Tell the frontend nobody is listening
+      this.send("comm_close", { comm_id, data: {} }, msg.header);
+      return;
+    }
+    const shared = typeof data.conversation === "string" && data.conversation;
+    const conversation = shared || `comm-${String(comm_id).slice(0, 8)}`;
+    this.conversations.open(conversation);
+    this.comms.set(comm_id, { conversation, owned: !shared });
+  }
+
+  /**
+   * Handle one comm message. Prompts resolve once the reply is complete, so
+   * the kernel can serialize them with cell executions.
+   */
+  async message(msg: any, signal?: AbortSignal): Promise<void> {
+    const { comm_id, data = {} } = msg.content;
+    const comm = this.comms.get(comm_id);
+    if (!comm) {
+      return;
+    }
+    const id = data.id ?? null;
+    const reply = (payload: Record<string, JSONValue>) =>
+      this.send("comm_msg", { comm_id, data: { ...payload, id } }, msg.header);
+
+    const chat = this.conversations.open(comm.conversation);
+    if (data.type === "transcript") {
+      reply({ type: "transcript", messages: chat.messages.map(m => ({ role: m.role, content: m.content })) });
+      return;
+    }
+    if (data.type !== "prompt") {
+      reply({ type: "error", ename: "Error", evalue: `Unknown message type "${data.type}". Expected "prompt" or "transcript".` });
+      return;
+    }
+    const prompt = String(data.prompt ?? "");
+    const started = new Date().toISOString();
+    const onChunk = (text: string) => reply({ type: "chunk", text });
+    const options = { signal, onDownloadProgress: (loaded: number) => reply({ type: "progress", loaded }) };
+    try {
+      let text: string;
+      if (data.schema) {
+        const value = await sendStructured(chat, prompt, data.schema, onChunk, options);
+        text = JSON.stringify(value);
+        reply({ type: "done", reply: text, value: value as JSONValue });
+      } else {
+        text = await chat.send(prompt, onChunk, options);
+        reply({ type: "done", reply: text });
+      }
+      if (!comm.owned) {
+        this.onTurn?.({ conversation: comm.conversation, prompt, reply: text, started });
+      }
+    } catch (err) {
+      const { ename, evalue } = errorContent(err);
+      reply({ type: "error", ename, evalue });
+    }
+  }
+
+  close(msg: any): void {
+    const { comm_id } = msg.content;
+    const comm = this.comms.get(comm_id);
+    this.comms.delete(comm_id);
+    if (comm?.owned) {
+      this.conversations.close(comm.conversation);
+    }
+  }
+
+  /**
+   * Open comms for a comm_info_reply, optionally only those on `targetName`.
+   */
+  info(targetName?: string): Record<string, { target_name: string }> {
+    const comms: Record<string, { target_name: string }> = {};
+    if (!targetName || targetName === COMM_TARGET) {
+      for (const id of this.comms.keys()) {
+        comms[id] = { target_name: COMM_TARGET };
+      }
+    }
+    return comms;
+  }
+}
+
+let replyCounter = 0;
+
+// crypto.randomUUID() needs a secure context, which many JupyterLite sites lack
+function newMessageId(): string {
+  replyCounter += 1;
+  return `built-in-chat-${Date.now().toString(36)}-${replyCounter}`;
+}
+
+function replyTo(parent: any, channel: string, msgType: string, content: Record<string, any>): any {
+  return {
+    channel,
+    header: {
+      msg_id: newMessageId(),
+      msg_type: msgType,
+      session: parent.header.session,
+      username: parent.header.username ?? "",
+      date: new Date().toISOString(),
+      version: "5.3",
+    },
+    parent_header: parent.header,
+    metadata: {},
+    content,
+    buffers: [],
+  };
+}
+
+/**
+ * Build a reply to `parent` on the shell channel, or the control channel if
+ * that is where it came from. BaseKernel has no hook for requests it does
+ * not dispatch itself, such as comm_info_request.
+ */
+export function shellReply(parent: any, msgType: string, content: Record<string, any>): any {
+  return replyTo(parent, parent.channel === "control" ? "control" : "shell", msgType, content);
+}
+
+/**
+ * Build the busy or idle status that brackets the handling of `parent`.
+ */
+export function statusMessage(parent: any, state: "busy" | "idle"): any {
+  return replyTo(parent, "iopub", "status", { execution_state: state });
+}
@@ -0,0 +1,80 @@
+// built-in-chat/src/conversations.ts
+import { ChatBackend, createBackend } from "./backends.js";
+import { ChatSession, ChatSessionOptions } from "./chat.js";
+
+export const DEFAULT_CONVERSATION = "default";
+
+// Conversations holds the named chat threads of one kernel. They all share
+// a backend; each has its own session, transcript and parameters.
+export class Conversations {
+  /**
+   * Where cells without `%%chat` send their prompt.
+   */
+  current = DEFAULT_CONVERSATION;
+  private backend: ChatBackend;
+  private chats = new Map<string, ChatSession>();
+
+  constructor(private options: ChatSessionOptions = {}) {
+    this.backend = options.backend ?? createBackend(options);
+    this.open(DEFAULT_CONVERSATION);
+  }
+
+  get(name: string): ChatSession | undefined {
+    return this.chats.get(name);
+  }
+
+  /**
+   * Get a conversation, starting a new one if the name is unused.
+   */
+  open(name: string): ChatSession {
+    let chat = this.chats.get(name);
+    if (!chat) {
+      chat = new ChatSession({ ...this.options, backend: this.backend });
+      this.chats.set(name, chat);
+    }
+    return chat;
+  }
+
+  /**
+   * Start `to` as a copy of `from` at its current point.
+   */
+  async fork(from: string, to: string): Promise<ChatSession> {
+    const source = this.chats.get(from);
+    if (!source) {
+      throw new Error(`No conversation named "${from}".`);
+    }
+    if (this.chats.has(to)) {
+      throw new Error(`A conversation named "${to}" already exists.`);
+    }
+    const chat = await source.fork();
+    this.chats.set(to, chat);
+    return chat;
+  }
+
+  /**
+   * End a conversation and release its session. The default one always stays.
+   */
+  close(name: string): void {
+    if (name === DEFAULT_CONVERSATION) {
+      return;
+    }
+    this.chats.get(name)?.destroy();
+    this.chats.delete(name);
+    if (this.current === name) {
+      this.current = DEFAULT_CONVERSATION;
+    }
+  }
+
+  list(): [string, ChatSession][] {
+    return [...this.chats.entries()];
+  }
+
+  /**
+   * Release every backend session, e.g. on kernel shutdown.
+   */
+  destroy(): void {
+    for (const chat of this.chats.values()) {
+      chat.destroy();
+    }
+  }
+}
@@ -0,0 +1,97 @@
+// built-in-chat/src/drive.ts
+// Access to the JupyterLite contents drive, handed to the kernel by the
+// plugin so kernel code does not depend on the service manager.
+
+export interface DriveEntry {
+  name: string;
+  /**
+   * Path from the drive root.
+   */
+  path: string;
+  type: "file" | "notebook" | "directory";
+}
+
+export interface Drive {
+  /**
+   * Read a file as text. Notebooks come back as their JSON.
+   */
+  read(path: string): Promise<string>;
+  /**
+   * Read a file as bytes, e.g. an image to attach to a prompt.
+   */
+  readBinary(path: string): Promise<Blob>;
+  /**
+   * List a directory.
+   */
+  list(path: string): Promise<DriveEntry[]>;
+  /**
+   * Create or overwrite a file. Notebooks are given as their JSON.
+   */
+  write(path: string, content: string): Promise<void>;
+}
+
+/**
+ * Wrap a JupyterLab `Contents.IManager` (app.serviceManager.contents).
+ */
+export function contentsDrive(contents: any): Drive {
+  return {
+    async read(path: string): Promise<string> {
+      const model = await contents.get(path, { content: true });
+      if (model.type === "directory") {
+        throw new Error(`${path} is a directory.`);
+      }
+      if (model.type === "notebook" || typeof model.content !== "string") {
+        return JSON.stringify(model.content, null, 1);
+      }
+      if (model.format === "base64") {
+        return new TextDecoder().decode(Uint8Array.from(atob(model.content), c => c.charCodeAt(0)));
+      }
+      return model.content;
+    },
+
+    async readBinary(path: string): Promise<Blob> {
+      const model = await contents.get(path, { type: "file", format: "base64", content: true });
+      if (model.type === "directory") {
+        throw new Error(`${path} is a directory.`);
+      }
+      const type = model.mimetype ?? "";
+      if (model.format === "base64") {
+        return new Blob([Uint8Array.from(atob(model.content), c => c.charCodeAt(0))], { type });
+      }
+      return new Blob([model.content], { type });
+    },
+
+    async list(path: string): Promise<DriveEntry[]> {
+      const model = await contents.get(path, { content: true });
+      if (model.type !== "directory") {
+        throw new Error(`${path} is not a directory.`);
+      }
+      return model.content.map((m: any) => ({ name: m.name, path: m.path, type: m.type }));
+    },
+
+    async write(path: string, content: string): Promise<void> {
+      if (path.toLowerCase().endsWith(".ipynb")) {
+        await contents.save(path, { type: "notebook", format: "json", content: JSON.parse(content) });
+      } else {
+        await contents.save(path, { type: "file", format: "text", content });
+      }
+    },
+  };
+}
+
+/**
+ * Resolve `path` against the directory the kernel was started in. Paths
+ * starting with "/" are taken from the drive root.
+ */
+export function resolveDrivePath(location: string, path: string): string {
+  const parts = path.startsWith("/") ? [] : location.split("/").filter(Boolean);
+  for (const part of path.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join("/");
+}
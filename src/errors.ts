@@ -0,0 +1,87 @@
+// built-in-chat/src/errors.ts
+
+/**
+ * Thrown by ChatSession.send when the prompt is aborted part-way through.
+ */
+export class ChatInterruptedError extends Error {
+  /**
+   * Whatever the model had streamed before it was stopped.
+   */
+  readonly partial: string;
+
+  constructor(partial: string) {
+    super(partial ? `Interrupted after ${partial.length} characters.` : "Interrupted.");
+    this.name = "ChatInterruptedError";
+    this.partial = partial;
+  }
+}
+
+/**
+ * Thrown when a prompt does not fit in the model's context and the overflow
+ * policy does not allow making room for it.
+ */
+export class ContextOverflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContextOverflowError";
+  }
+}
+
+/**
+ * Thrown when a structured reply does not match its JSON Schema.
+ */
+export class SchemaValidationError extends Error {
+  /**
+   * Location of the offending value, e.g. "$.items[2].price".
+   */
+  readonly path: string;
+
+  constructor(path: string, problem: string) {
+    super(`Reply does not match the schema: ${path} ${problem}.`);
+    this.name = "SchemaValidationError";
+    this.path = path;
+  }
+}
+
+/**
+ * Thrown when a notebook-defined tool fails while the model is using it.
+ */
+export class ToolError extends Error {
+  readonly tool: string;
+  readonly cause: unknown;
+
+  constructor(tool: string, cause: unknown) {
+    super(`Tool "${tool}" failed: ${(cause as any)?.message ?? cause}`);
+    this.name = "ToolError";
+    this.tool = tool;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Thrown when a prompt carries images or audio that the backend, or this
+ * browser, cannot take.
+ */
+export class UnsupportedInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedInputError";
+  }
+}
+
+/**
+ * Build the ename/evalue/traceback triple for an error reply.
+ */
+export function errorContent(err: any): { ename: string; evalue: string; traceback: string[] } {
+  if (err instanceof ChatInterruptedError) {
+    return { ename: "KeyboardInterrupt", evalue: err.message, traceback: [] };
+  }
+  if (err instanceof ContextOverflowError || err instanceof SchemaValidationError || err instanceof UnsupportedInputError) {
+    return { ename: err.name, evalue: err.message, traceback: [] };
+  }
+  if (err instanceof ToolError) {
+    const stack = (err.cause as any)?.stack;
+    return { ename: err.name, evalue: err.message, traceback: typeof stack === "string" ? stack.split("\n") : [] };
+  }
+  return { ename: "Error", evalue: err?.message ?? String(err), traceback: [] };
+}
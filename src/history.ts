@@ -0,0 +1,190 @@
+// built-in-chat/src/history.ts
+// Conversation history, persisted in IndexedDB so it survives kernel
+// restarts and page reloads, and the `history_request` queries over it.
+
+import { PromptMessage } from "./backends.js";
+import { DEFAULT_CONVERSATION } from "./conversations.js";
+import { getAll, hasIndexedDB, put } from "./idb.js";
+
+export interface HistoryEntry {
+  /**
+   * Which conversation this belongs to: "notebook:<path>" or "kernel:<id>".
+   */
+  key: string;
+  /**
+   * Identifies the kernel run that recorded the entry.
+   */
+  session: string;
+  /**
+   * Named conversation within the notebook; missing means "default".
+   */
+  conversation?: string;
+  /**
+   * 0 for prompts that did not come from a cell, such as the chat panel's.
+   */
+  execution_count: number;
+  /**
+   * The cell as typed, magics included.
+   */
+  input: string;
+  prompt: string;
+  reply: string;
+  started: string;
+  finished: string;
+}
+
+export interface HistoryStore {
+  add(entry: HistoryEntry): Promise<void>;
+  list(key: string): Promise<HistoryEntry[]>;
+}
+
+class IndexedDBHistoryStore implements HistoryStore {
+  async add(entry: HistoryEntry): Promise<void> {
+    await put("history", entry);
+  }
+
+  async list(key: string): Promise<HistoryEntry[]> {
+    // Auto-incremented ids keep entries in insertion order
+    return getAll<HistoryEntry>("history", "key", key);
+  }
+}
+
+// Used where IndexedDB is missing, e.g. under Node
+class MemoryHistoryStore implements HistoryStore {
+  private entries: HistoryEntry[] = [];
+
+  async add(entry: HistoryEntry): Promise<void> {
+    this.entries.push({ ...entry });
+  }
+
+  async list(key: string): Promise<HistoryEntry[]> {
+    return this.entries.filter(e => e.key === key);
+  }
+}
+
+let store: HistoryStore | null = null;
+
+export function historyStore(): HistoryStore {
+  if (!store) {
+    store = hasIndexedDB() ? new IndexedDBHistoryStore() : new MemoryHistoryStore();
+  }
+  return store;
+}
+
+/**
+ * Turn stored entries back into the prompts a new session is seeded with.
+ */
+export function transcript(entries: HistoryEntry[]): PromptMessage[] {
+  return entries.flatMap(e => [
+    { role: "user" as const, content: e.prompt },
+    { role: "assistant" as const, content: e.reply },
+  ]);
+}
+
+/**
+ * One kernel's view of the history store: works out which conversation the
+ * kernel belongs to and records its turns under that key.
+ */
+export class ConversationLog {
+  /**
+   * Identifies this kernel run among the entries stored under the same key.
+   */
+  readonly session = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  private resolvedKey: string | null = null;
+
+  constructor(
+    private kernelId: string,
+    private resolvePath?: (kernelId: string) => string | undefined,
+    private store: HistoryStore = historyStore()
+  ) {}
+
+  /**
+   * "notebook:<path>" once the notebook is known, else "kernel:<id>".
+   */
+  get key(): string {
+    if (!this.resolvedKey) {
+      const path = this.resolvePath?.(this.kernelId);
+      if (!path) {
+        return `kernel:${this.kernelId}`;
+      }
+      this.resolvedKey = `notebook:${path}`;
+    }
+    return this.resolvedKey;
+  }
+
+  async record(turn: Pick<HistoryEntry, "conversation" | "execution_count" | "input" | "prompt" | "reply" | "started">): Promise<void> {
+    await this.store.add({ ...turn, key: this.key, session: this.session, finished: new Date().toISOString() });
+  }
+
+  entries(): Promise<HistoryEntry[]> {
+    return this.store.list(this.key);
+  }
+
+  async query(content: any): Promise<HistoryTuple[]> {
+    return queryHistory(await this.entries(), content, this.session);
+  }
+}
+
+/**
+ * Split stored entries by named conversation, keeping their order.
+ */
+export function groupByConversation(entries: HistoryEntry[]): Map<string, HistoryEntry[]> {
+  const groups = new Map<string, HistoryEntry[]>();
+  for (const entry of entries) {
+    const name = entry.conversation ?? DEFAULT_CONVERSATION;
+    groups.set(name, [...(groups.get(name) ?? []), entry]);
+  }
+  return groups;
+}
+
+type HistoryTuple = [number, number, string] | [number, number, [string, string]];
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "s");
+}
+
+/**
+ * Answer a Jupyter `history_request` from stored entries. Sessions are
+ * numbered from 1 in the order they were recorded; 0 and negative numbers
+ * count back from the current kernel run, as in IPython.
+ */
+export function queryHistory(entries: HistoryEntry[], content: any, currentSession: string): HistoryTuple[] {
+  const sessions = [...new Set([...entries.map(e => e.session), currentSession])];
+  const sessionNumber = (id: string) => sessions.indexOf(id) + 1;
+  const toTuple = (e: HistoryEntry): HistoryTuple =>
+    content.output
+      ? [sessionNumber(e.session), e.execution_count, [e.input, e.reply]]
+      : [sessionNumber(e.session), e.execution_count, e.input];
+
+  switch (content.hist_access_type) {
+    case "tail": {
+      const n = Number(content.n ?? 10);
+      return n > 0 ? entries.slice(-n).map(toTuple) : [];
+    }
+    case "range": {
+      let session = Number(content.session ?? 0);
+      if (session <= 0) {
+        session += sessions.length;
+      }
+      const id = sessions[session - 1];
+      const start = Number(content.start ?? 0);
+      const stop = content.stop == null ? Infinity : Number(content.stop);
+      return entries
+        .filter(e => e.session === id && e.execution_count >= start && e.execution_count < stop)
+        .map(toTuple);
+    }
+    case "search": {
+      const pattern = globToRegExp(String(content.pattern ?? "*"));
+      let matches = entries.filter(e => pattern.test(e.input));
+      if (content.unique) {
+        const seen = new Set<string>();
+        matches = matches.reverse().filter(e => !seen.has(e.input) && !!seen.add(e.input)).reverse();
+      }
+      const n = content.n == null ? matches.length : Number(content.n);
+      return n > 0 ? matches.slice(-n).map(toTuple) : [];
+    }
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,67 @@
+// built-in-chat/src/idb.ts
+// Minimal promise wrapper around the IndexedDB database the kernel keeps
+// its state in. Add a store here (and bump DB_VERSION) to persist more.
+
+const DB_NAME = "built-in-chat";
+const DB_VERSION = 3;
+
+const STORES: Record<string, { indexes: string[] }> = {
+  history: { indexes: ["key"] },
+  retrieval: { indexes: [] },
+  cache: { indexes: [] },
+};
+
+let database: Promise<IDBDatabase> | null = null;
+
+export function hasIndexedDB(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        for (const [name, { indexes }] of Object.entries(STORES)) {
+          if (db.objectStoreNames.contains(name)) continue;
+          const store = db.createObjectStore(name, { keyPath: "id", autoIncrement: true });
+          for (const index of indexes) {
+            store.createIndex(index, index);
+          }
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        database = null;
+        reject(req.error);
+      };
+    });
+  }
+  return database;
+}
+
+export async function getAll<T>(store: string, index: string, key: IDBValidKey): Promise<T[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readonly");
+  return request(tx.objectStore(store).index(index).getAll(key) as IDBRequest<T[]>);
+}
+
+export async function put<T>(store: string, value: T): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readwrite");
+  await request(tx.objectStore(store).put(value));
+}
+
+export async function get<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readonly");
+  return request(tx.objectStore(store).get(key) as IDBRequest<T | undefined>);
+}
@@ -1,199 +1,530 @@
 // built-in-chat/src/kernel.ts
+// The kernel, built on whichever BaseKernel it is given: the ES entry point
+// passes the one it imports, the federation container the one it gets from
+// JupyterLite's shared scope. Both run this same class.
+
 import { BaseKernel, IKernel } from "@jupyterlite/kernel";
 
-// TypeScript declarations for the Chrome Built-in AI Prompt API
-declare class LanguageModel {
-  static availability(): Promise<"unavailable" | "available" | "downloadable" | "downloading">;
-  static create(options?: {
-    monitor?: (monitor: { addEventListener: (event: string, callback: (e: ProgressEvent) => void) => void }) => void;
-  }): Promise<LanguageModel>;
-  prompt(input: string): Promise<string>;
-  promptStreaming(input: string): ReadableStream<string>;
-}
+import { batchBundle, batchProgressText, runBatch } from "./batch.js";
+import { ReplyCache } from "./cache.js";
+import { AutoInsertSettings, NextInputPayload, nextInputPayloads } from "./codeblocks.js";
+import { OverflowPolicy } from "./chat.js";
+import { ChatComms, shellReply, statusMessage } from "./comms.js";
+import { Conversations } from "./conversations.js";
+import { Drive, resolveDrivePath } from "./drive.js";
+import { errorContent } from "./errors.js";
+import { ConversationLog, groupByConversation, transcript } from "./history.js";
+import { logger } from "./log.js";
+import { MagicContext, parseCell, runMagic } from "./magics.js";
+import { TurnMetrics, TurnStats, TurnTimer } from "./metrics.js";
+import { DisplaySink, DownloadProgress, MarkdownReply, MimeBundle, ProgressBar, jsonBundle, markdownDisplay, replyMetadata } from "./render.js";
+import { Library, formatSources, groundedPrompt } from "./retrieval.js";
+import { JSONSchema, sendStructured } from "./schema.js";
+import { InteractionSettings, StdinBroker, askUserTool, confirmCall, confirmLongReply } from "./stdin.js";
+import { TemplateSources, evaluateUserExpressions, expandTemplate } from "./templates.js";
+import { ToolRegistry, runToolLoop } from "./tools.js";
+
+const log = logger("kernel");
 
-interface ChatSessionOptions {
+export type KernelOptions = IKernel.IOptions & {
+  /**
+   * Optional model spec to pass through to ChatSession, e.g. "chrome",
+   * "mock" or "openai:llama3.2". Defaults to Chrome built-in AI.
+   */
   model?: string;
+  /**
+   * Base URL of the OpenAI-compatible API used by the "openai" backend.
+   */
+  endpoint?: string;
+  /**
+   * Optional bearer token for the "openai" backend.
+   */
+  apiKey?: string;
+  /**
+   * What to do when a prompt would overflow the model's context.
+   */
+  overflow?: OverflowPolicy;
+  /**
+   * System prompt and sampling every conversation starts with, e.g. from
+   * the plugin settings or a persona.
+   */
+  systemPrompt?: string;
+  temperature?: number;
+  topK?: number;
+  /**
+   * Languages the prompts and replies will be in, for the Chrome backend.
+   */
+  expectedInputLanguages?: string[];
+  expectedOutputLanguages?: string[];
+  /**
+   * JSON Schema every reply must match, turning each prompt into a
+   * structured one as if it were a `%%json` cell.
+   */
+  schema?: JSONSchema;
+  /**
+   * The contents drive, for `{{ file:... }}` placeholders.
+   */
+  drive?: Drive;
+  /**
+   * Look up the notebook a kernel belongs to, so history is keyed by notebook
+   * rather than by kernel id and survives page reloads.
+   */
+  resolvePath?: (kernelId: string) => string | undefined;
+  /**
+   * Seed the conversation from stored history before the first prompt.
+   */
+  restore?: boolean;
+};
+
+/**
+ * What a build reports about itself in kernel_info_reply; generated from
+ * package.json into build-info.ts.
+ */
+export interface KernelBuild {
+  version: string;
+  /**
+   * What the kernel supports, listed in the banner. Not sent as
+   * `supported_features`, which only takes the protocol's own names.
+   */
+  capabilities: string[];
 }
 
-// ChatSession is defined inline here for TypeScript compilation
-// The actual code used at runtime is in federation.ts
-class ChatSession {
-  private session: LanguageModel | null = null;
+export interface BuiltInChatKernel extends IKernel {
+  /**
+   * Stop the prompt that is currently streaming, if any.
+   */
+  interrupt(): void;
+  /**
+   * Load this notebook's stored conversations into their chat sessions.
+   */
+  restoreHistory(): Promise<number>;
+}
 
-  constructor(_opts: ChatSessionOptions = {}) {
-    console.log("[ChatSession] Using Chrome built-in AI");
-  }
+export type BuiltInChatKernelClass = new (options: KernelOptions) => BuiltInChatKernel;
 
-  async send(prompt: string, onChunk?: (chunk: string) => void): Promise<string> {
-    if (typeof LanguageModel === "undefined") {
-      throw new Error("Browser does not support Chrome built-in AI.");
+export function createKernelClass(Base: typeof BaseKernel, build: KernelBuild): BuiltInChatKernelClass {
+  class BuiltInChatKernel extends Base {
+    private conversations: Conversations;
+    private comms: ChatComms;
+    private pending: AbortController | null = null;
+    private log: ConversationLog;
+    private restorePending: boolean;
+    private drive?: Drive;
+    // The channel back to the frontend, for replies BaseKernel does not send
+    private send: IKernel.SendMessage;
+    private resolvePath?: (kernelId: string) => string | undefined;
+    private schema?: JSONSchema;
+    private tools = new ToolRegistry();
+    private library = new Library();
+    private stdin: StdinBroker;
+    private interaction: InteractionSettings = { clarify: false, confirmAfter: null };
+    private cache = new ReplyCache();
+    private autoinsert: AutoInsertSettings = { languages: [] };
+    private stats = new TurnStats();
+    // Replies of this kernel run by execution count, for `{{ out:N }}`
+    private replies = new Map<number, string>();
+
+    constructor(options: KernelOptions) {
+      super(options);
+      const { model, endpoint, apiKey, overflow, systemPrompt, temperature, topK } = options;
+      const { expectedInputLanguages, expectedOutputLanguages } = options;
+      this.conversations = new Conversations({
+        model,
+        endpoint,
+        apiKey,
+        overflow,
+        systemPrompt,
+        temperature,
+        topK,
+        expectedInputLanguages,
+        expectedOutputLanguages,
+        cache: this.cache,
+      });
+      this.comms = new ChatComms(
+        this.conversations,
+        (type, content, parent) => this.handleComm(type, content, {}, [], parent),
+        // e.g. from the chat panel; no cell, so no execution count
+        ({ conversation, prompt, reply, started }) =>
+          this.log
+            .record({ conversation, execution_count: 0, input: prompt, prompt, reply, started })
+            .catch(err => log.warn("Could not save history", err))
+      );
+      this.stdin = new StdinBroker((content, parent) => this.inputRequest(content, parent));
+      this.log = new ConversationLog(this.id, options.resolvePath);
+      this.restorePending = options.restore ?? false;
+      this.drive = options.drive;
+      this.send = options.sendMessage;
+      this.resolvePath = options.resolvePath;
+      this.schema = options.schema;
     }
 
-    const availability = await LanguageModel.availability();
-    if (availability === "unavailable") {
-      throw new Error("Chrome built-in AI model is not available.");
+    /**
+     * Load this notebook's stored conversations into their chat sessions.
+     */
+    async restoreHistory(): Promise<number> {
+      this.restorePending = false;
+      const entries = await this.log.entries();
+      for (const [name, turns] of groupByConversation(entries)) {
+        this.conversations.open(name).load(transcript(turns));
+      }
+      return entries.length;
     }
 
-    if (!this.session) {
-      if (availability === "downloadable" || availability === "downloading") {
-        this.session = await LanguageModel.create({
-          monitor(m) {
-            m.addEventListener("downloadprogress", (e: ProgressEvent) => {
-              const progress = e.loaded;
-              console.log(`[ChatSession] Downloading model: ${Math.round(progress * 100)}%`);
-            });
-          }
-        });
-      } else {
-        this.session = await LanguageModel.create();
+    async handleMessage(msg: any): Promise<void> {
+      if (msg.header.msg_type === "input_reply") {
+        // Answers arrive while the cell that asked is still running. Letting
+        // BaseKernel see them would make the reply the parent of that cell's
+        // remaining output.
+        await this.inputReply(msg.content);
+        return;
       }
+      if (msg.header.msg_type === "history_request") {
+        // BaseKernel answers history requests from its own in-memory list
+        // without calling historyRequest(), so answer from the log here
+        return this.answer(msg, "history_reply", () => this.historyRequest(msg.content));
+      } else if (msg.header.msg_type === "comm_info_request") {
+        // ...and does not answer comm info or shutdown requests at all
+        return this.answer(msg, "comm_info_reply", () => this.commInfoRequest(msg.content));
+      } else if (msg.header.msg_type === "shutdown_request") {
+        return this.answer(msg, "shutdown_reply", () => this.shutdownRequest(msg.content));
+      }
+      return super.handleMessage(msg);
     }
 
-    const stream = this.session.promptStreaming(prompt);
-    let reply = "";
-    const reader = stream.getReader();
-    
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        reply += value;
-        if (onChunk && value) {
-          onChunk(value);
-        }
+    /**
+     * Reply to a shell request BaseKernel does not handle itself, between
+     * the busy and idle statuses it sends around every other request.
+     */
+    private async answer(msg: any, msgType: string, content: () => Promise<Record<string, any>>): Promise<void> {
+      this.send(statusMessage(msg, "busy"));
+      try {
+        this.send(shellReply(msg, msgType, await content()));
+      } finally {
+        this.send(statusMessage(msg, "idle"));
       }
-    } finally {
-      reader.releaseLock();
     }
 
-    return reply;
-  }
-}
+    /**
+     * Stop the prompt that is currently streaming, if any.
+     */
+    interrupt(): void {
+      this.pending?.abort();
+    }
 
-type KernelOptions = IKernel.IOptions & {
-  /**
-   * Optional model identifier to pass through to ChatSession.
-   */
-  model?: string;
-};
+    dispose(): void {
+      if (this.isDisposed) {
+        return;
+      }
+      this.interrupt();
+      this.conversations.destroy();
+      super.dispose();
+    }
 
-export class BuiltInChatKernel extends BaseKernel {
-  private chat: ChatSession;
+    async executeRequest(content: any): Promise<any> {
+      const code = String(content.code ?? "");
+      const pending = (this.pending = new AbortController());
+      const ctx = this.magicContext(pending.signal, content.allow_stdin !== false);
+      try {
+        if (this.restorePending) {
+          const turns = await this.restoreHistory();
+          if (turns) {
+            this.stream({ name: "stdout", text: `Restored ${turns} turn${turns === 1 ? "" : "s"} from history.\n` }, this.parentHeader);
+          }
+        }
 
-  constructor(options: KernelOptions) {
-    super(options);
-    const model = options.model;
-    this.chat = new ChatSession({ model });
-  }
+        const parsed = parseCell(code);
+        let prompt = parsed.prompt;
+        for (const magic of parsed.magics) {
+          prompt = (await runMagic(ctx, magic)) ?? prompt;
+        }
 
-  async executeRequest(content: any): Promise<any> {
-    const code = String(content.code ?? "");
-    try {
-      // Stream each chunk as it arrives using the stream() method for stdout
-      await this.chat.send(code, (chunk: string) => {
-        this.stream(
-          { name: "stdout", text: chunk },
-          this.parentHeader
-        );
-      });
+        let payload: NextInputPayload[] = [];
+        let metrics: TurnMetrics | undefined;
+        if (ctx.attachments && (ctx.batch || ctx.task)) {
+          throw new Error(`${ctx.batch ? "%%batch" : ctx.task!.label} cannot take images or audio; only chat prompts can carry them.`);
+        }
+        if (ctx.batch) {
+          const template = await expandTemplate(prompt, this.templateSources());
+          const progress = new ProgressBar(this.displaySink());
+          const result = await runBatch(ctx.batch, template, ctx.chat, ctx, {
+            ...ctx.sendOptions,
+            onProgress: p => progress.update(p.done, p.total, batchProgressText(p)),
+          });
+          this.displaySink().result({ data: batchBundle(result), metadata: {}, execution_count: this.executionCount });
+        } else if (prompt.trim()) {
+          prompt = await expandTemplate(prompt, this.templateSources());
+          if (ctx.sources) {
+            prompt = groundedPrompt(prompt, ctx.sources);
+          }
+
+          // Render chunks into a live Markdown display as they arrive
+          let reply = new MarkdownReply(this.displaySink());
+          const started = new Date().toISOString();
+          const timer = new TurnTimer();
+          const sendOptions = {
+            ...ctx.sendOptions,
+            attachments: ctx.attachments,
+            onSessionCreated: (ms: number) => timer.session(ms),
+          };
+          const onChunk = timer.watch(confirmLongReply((chunk: string) => reply.push(chunk), ctx.interaction.confirmAfter, ctx.ask));
+          const tools = ctx.interaction.clarify ? ctx.tools.with(askUserTool(ctx.ask)) : ctx.tools;
+          let text: string;
+          let data: MimeBundle | undefined;
+          try {
+            if (ctx.task) {
+              text = await ctx.task.run(prompt, onChunk, sendOptions);
+            } else if (ctx.schema) {
+              const value = await sendStructured(ctx.chat, prompt, ctx.schema, onChunk, {
+                ...sendOptions,
+                onRetry: () => reply.restart(),
+              });
+              data = jsonBundle(value);
+              text = data["text/plain"] as string;
+            } else if (tools.size) {
+              text = await runToolLoop(ctx.chat, prompt, tools, onChunk, sendOptions, {
+                onCall: call => {
+                  // What streamed was a tool request; the answer starts again below the call log
+                  reply.restart();
+                  reply = new MarkdownReply(this.displaySink());
+                  ctx.print(`→ ${call.name}(${JSON.stringify(call.arguments)})\n`);
+                },
+                onResult: (_call, result) => ctx.print(`← ${result}\n`),
+                confirm: call => confirmCall(call, ctx.ask),
+              });
+            } else {
+              text = await ctx.chat.send(prompt, onChunk, sendOptions);
+            }
+          } catch (err) {
+            reply.abort();
+            throw err;
+          }
+          // Task models are not the chat session, so its usage does not apply
+          metrics = timer.finish(ctx.task ? {} : ctx.chat.usage);
+          this.stats.add({ conversation: ctx.conversation, backend: ctx.task?.label ?? ctx.chat.backend.label, metrics });
+          log.debug("Turn finished", metrics);
+          reply.finish(this.executionCount, replyMetadata(ctx.conversation, ctx.chat.usage, metrics), data);
+          if (ctx.sources) {
+            this.displaySink().display(markdownDisplay(formatSources(ctx.sources)));
+          }
+          payload = nextInputPayloads(text, ctx.autoinsert);
+
+          // BaseKernel only advances the execution count when store_history
+          // is set, so keying other executes by it would overwrite the
+          // previous cell's reply and history. Task output is not a
+          // conversation turn, so it stays out of the transcript.
+          const recorded = !!content.store_history && !content.silent;
+          if (recorded) {
+            this.replies.set(this.executionCount, text);
+          }
+          if (recorded && !ctx.task) {
+            this.log
+              .record({
+                conversation: ctx.conversation,
+                execution_count: this.executionCount,
+                input: code,
+                prompt,
+                reply: text,
+                started,
+              })
+              .catch(err => log.warn("Could not save history", err));
+          }
+        }
+
+        return {
+          status: "ok",
+          execution_count: this.executionCount,
+          payload,
+          user_expressions: await evaluateUserExpressions(content.user_expressions, this.templateSources()),
+          metadata: replyMetadata(ctx.conversation, ctx.chat.usage, metrics),
+        };
+      } catch (err: any) {
+        // Interrupted replies keep whatever was already streamed to the cell
+        const error = errorContent(err);
+        this.publishExecuteError(error, this.parentHeader);
+        return {
+          status: "error",
+          execution_count: this.executionCount,
+          ...error,
+          metadata: replyMetadata(ctx.conversation, ctx.chat.usage),
+        };
+      } finally {
+        if (this.pending === pending) {
+          this.pending = null;
+        }
+      }
+    }
 
+    private templateSources(): TemplateSources {
+      const replies = [...this.replies.values()];
       return {
-        status: "ok",
-        execution_count: this.executionCount,
-        payload: [],
-        user_expressions: {},
+        readFile: async (path: string) => {
+          if (!this.drive) {
+            throw new Error("No contents drive is available to this kernel.");
+          }
+          return this.drive.read(resolveDrivePath(this.location, path));
+        },
+        output: (executionCount: number) => this.replies.get(executionCount),
+        previous: (offset: number) => replies[replies.length - offset],
       };
-    } catch (err: any) {
-      const message = err?.message ?? String(err);
-      this.publishExecuteError(
-        {
-          ename: "Error",
-          evalue: message,
-          traceback: [],
+    }
+
+    private displaySink(): DisplaySink {
+      const parent = this.parentHeader;
+      return {
+        display: (content) => this.displayData(content, parent),
+        update: (content) => this.updateDisplayData(content, parent),
+        result: (content) => this.publishExecuteResult(content, parent),
+      };
+    }
+
+    private magicContext(signal: AbortSignal, allowStdin: boolean): MagicContext {
+      const { conversations } = this;
+      const parent = this.parentHeader;
+      const download = new DownloadProgress(this.displaySink());
+      return {
+        conversations,
+        conversation: conversations.current,
+        chat: conversations.open(conversations.current),
+        schema: this.schema,
+        tools: this.tools,
+        sendOptions: { signal, onDownloadProgress: (loaded: number) => download.update(loaded) },
+        print: (text: string) => this.stream({ name: "stdout", text }, parent),
+        ask: async (prompt: string, password?: boolean) => {
+          if (!allowStdin) {
+            throw new Error("This frontend does not accept input (allow_stdin is false).");
+          }
+          return this.stdin.ask(prompt, parent, { password, signal });
         },
-        this.parentHeader
-      );
+        interaction: this.interaction,
+        autoinsert: this.autoinsert,
+        stats: this.stats,
+        cache: this.cache,
+        library: this.library,
+        readFile: (path: string) => this.templateSources().readFile(path),
+        readBinary: async (path: string) => {
+          if (!this.drive) {
+            throw new Error("No contents drive is available to this kernel.");
+          }
+          return this.drive.readBinary(resolveDrivePath(this.location, path));
+        },
+        readNotebook: async () => {
+          const path = this.resolvePath?.(this.id);
+          if (!this.drive || !path) {
+            throw new Error("Cannot find this kernel's notebook on the contents drive.");
+          }
+          return JSON.parse(await this.drive.read(path));
+        },
+        writeFile: async (path: string, content: string) => {
+          if (!this.drive) {
+            throw new Error("No contents drive is available to this kernel.");
+          }
+          await this.drive.write(resolveDrivePath(this.location, path), content);
+        },
+        listFiles: async (path: string) => {
+          if (!this.drive) {
+            throw new Error("No contents drive is available to this kernel.");
+          }
+          return this.drive.list(path);
+        },
+        resolvePath: (path: string) => resolveDrivePath(this.location, path),
+        restoreHistory: () => this.restoreHistory(),
+      };
+    }
+
+    async kernelInfoRequest(): Promise<any> {
       return {
-        status: "error",
-        execution_count: this.executionCount,
-        ename: "Error",
-        evalue: message,
-        traceback: [],
+        status: "ok",
+        protocol_version: "5.3",
+        implementation: "built-in-chat-kernel",
+        implementation_version: build.version,
+        language_info: {
+          name: "markdown",
+          version: "0.0.0",
+          mimetype: "text/markdown",
+          file_extension: ".md",
+        },
+        banner: `Chrome Built-in AI chat kernel ${build.version} (${build.capabilities.join(", ")})`,
+        help_links: [],
       };
     }
-  }
 
-  async kernelInfoRequest(): Promise<any> {
-    return {
-      status: "ok",
-      protocol_version: "5.3",
-      implementation: "built-in-chat-kernel",
-      implementation_version: "0.2.6dev6",
-      language_info: {
-        name: "markdown",
-        version: "0.0.0",
-        mimetype: "text/markdown",
-        file_extension: ".md",
-      },
-      banner: "Chrome Built-in AI chat kernel",
-      help_links: [],
-    };
-  }
+    async completeRequest(content: any): Promise<any> {
+      return {
+        status: "ok",
+        matches: [],
+        cursor_start: content.cursor_pos ?? 0,
+        cursor_end: content.cursor_pos ?? 0,
+        metadata: {},
+      };
+    }
 
-  async completeRequest(content: any): Promise<any> {
-    return {
-      status: "ok",
-      matches: [],
-      cursor_start: content.cursor_pos ?? 0,
-      cursor_end: content.cursor_pos ?? 0,
-      metadata: {},
-    };
-  }
+    async inspectRequest(_content: any): Promise<any> {
+      return {
+        status: "ok",
+        found: false,
+        data: {},
+        metadata: {},
+      };
+    }
 
-  async inspectRequest(_content: any): Promise<any> {
-    return {
-      status: "ok",
-      found: false,
-      data: {},
-      metadata: {},
-    };
-  }
+    async isCompleteRequest(_content: any): Promise<any> {
+      return {
+        status: "complete",
+        indent: "",
+      };
+    }
 
-  async isCompleteRequest(_content: any): Promise<any> {
-    return {
-      status: "complete",
-      indent: "",
-    };
-  }
+    async commInfoRequest(content: any): Promise<any> {
+      return {
+        status: "ok",
+        comms: this.comms.info(content?.target_name),
+      };
+    }
 
-  async commInfoRequest(_content: any): Promise<any> {
-    return {
-      status: "ok",
-      comms: {},
-    };
-  }
+    async historyRequest(content: any): Promise<any> {
+      return {
+        status: "ok",
+        history: await this.log.query(content),
+      };
+    }
 
-  async historyRequest(_content: any): Promise<any> {
-    return {
-      status: "ok",
-      history: [],
-    };
-  }
+    /**
+     * Stop any prompt and release the model sessions. The transcripts are
+     * kept, so a prompt after a restart recreates the sessions from them.
+     */
+    async shutdownRequest(content: any): Promise<any> {
+      this.interrupt();
+      this.conversations.destroy();
+      return {
+        status: "ok",
+        restart: !!content.restart,
+      };
+    }
 
-  async shutdownRequest(_content: any): Promise<any> {
-    return {
-      status: "ok",
-      restart: false,
-    };
-  }
+    async inputReply(content: any): Promise<void> {
+      this.stdin.reply(content);
+    }
 
-  async inputReply(_content: any): Promise<void> {}
+    async commOpen(msg: any): Promise<void> {
+      this.comms.open(msg);
+    }
 
-  async commOpen(_content: any): Promise<void> {}
-  async commMsg(_content: any): Promise<void> {}
-  async commClose(_content: any): Promise<void> {}
-}
+    async commMsg(msg: any): Promise<void> {
+      // Comm prompts take turns with cells and are interrupted the same way
+      const pending = (this.pending = new AbortController());
+      try {
+        await this.comms.message(msg, pending.signal);
+      } finally {
+        if (this.pending === pending) {
+          this.pending = null;
+        }
+      }
+    }
+
+    async commClose(msg: any): Promise<void> {
+      this.comms.close(msg);
+    }
+  }
 
-export function createBuiltInChatKernel(options: KernelOptions): IKernel {
-  return new BuiltInChatKernel(options);
+  return BuiltInChatKernel;
 }
@@ -0,0 +1,67 @@
+// built-in-chat/src/log.ts
+// Leveled logging for the whole extension. Only warnings and errors reach
+// the console unless `%debug` turns on the chattier levels. Each entry is a
+// message plus an optional data object, so the browser console shows the
+// data as an inspectable value rather than text.
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "off";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "off"];
+
+const DEFAULT_LEVEL: LogLevel = "warn";
+
+let threshold: LogLevel = DEFAULT_LEVEL;
+
+export function logLevel(): LogLevel {
+  return threshold;
+}
+
+/**
+ * Show entries at `level` and above; "off" silences the log entirely.
+ */
+export function setLogLevel(level: LogLevel): void {
+  threshold = level;
+}
+
+export function resetLogLevel(): void {
+  threshold = DEFAULT_LEVEL;
+}
+
+function enabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Logs under one scope, e.g. "built-in-chat:chat".
+ */
+export class Logger {
+  constructor(readonly scope: string) {}
+
+  debug(message: string, data?: unknown): void {
+    this.write("debug", message, data);
+  }
+
+  info(message: string, data?: unknown): void {
+    this.write("info", message, data);
+  }
+
+  warn(message: string, data?: unknown): void {
+    this.write("warn", message, data);
+  }
+
+  error(message: string, data?: unknown): void {
+    this.write("error", message, data);
+  }
+
+  private write(level: Exclude<LogLevel, "off">, message: string, data?: unknown): void {
+    if (!enabled(level)) {
+      return;
+    }
+    const args = data === undefined ? [`[${this.scope}] ${message}`] : [`[${this.scope}] ${message}`, data];
+    console[level](...args);
+  }
+}
+
+export function logger(area?: string): Logger {
+  return new Logger(area ? `built-in-chat:${area}` : "built-in-chat");
+}
@@ -0,0 +1,709 @@
+// built-in-chat/src/magics.ts
+// Cell directives ("magics") that control the conversation instead of
+// being sent to the model. Line magics (`%name args`) may appear on the
+// leading lines of a cell, before the prompt. A cell magic (`%%name args`)
+// takes the rest of the cell as its body.
+
+import { Attachment, AttachmentRef, loadAttachment } from "./attachments.js";
+import { BATCH_SESSIONS, BatchJob, BatchSession, resultsPath } from "./batch.js";
+import { CACHE_MODES, CacheMode, FileCacheStore, ReplyCache, cacheStore } from "./cache.js";
+import { AutoInsertSettings, normalizeLanguage } from "./codeblocks.js";
+import { ChatSession, OVERFLOW_POLICIES, OverflowPolicy, SendOptions } from "./chat.js";
+import { Conversations } from "./conversations.js";
+import { DriveEntry } from "./drive.js";
+import { LOG_LEVELS, LogLevel, logLevel, resetLogLevel, setLogLevel } from "./log.js";
+import { TurnStats } from "./metrics.js";
+import { Library, Passage } from "./retrieval.js";
+import { JSONSchema } from "./schema.js";
+import { Ask, InteractionSettings } from "./stdin.js";
+import {
+  REWRITER_LENGTHS,
+  REWRITER_TONES,
+  SUMMARY_LENGTHS,
+  SUMMARY_TYPES,
+  TEXT_FORMATS,
+  Task,
+  WRITER_LENGTHS,
+  WRITER_TONES,
+  detectTask,
+  rewriteTask,
+  summarizeTask,
+  translateTask,
+  writeTask,
+} from "./tasks.js";
+import { ToolRegistry, defineTool } from "./tools.js";
+import { TRANSCRIPT_FORMATS, TranscriptFormat, formatTranscript, parseTranscript } from "./transcripts.js";
+
+export interface MagicCall {
+  name: string;
+  args: string;
+  /**
+   * Cell body for `%%name` magics; undefined for line magics.
+   */
+  body?: string;
+}
+
+export interface ParsedCell {
+  magics: MagicCall[];
+  /**
+   * Whatever follows the magics, to be sent to the model.
+   */
+  prompt: string;
+}
+
+/**
+ * What a magic may touch on the kernel that runs it.
+ */
+export interface MagicContext {
+  conversations: Conversations;
+  /**
+   * Name of the conversation this cell talks to, and its session. Magics
+   * that switch conversation update both.
+   */
+  conversation: string;
+  chat: ChatSession;
+  /**
+   * JSON Schema the cell's reply must match, if it is a structured prompt.
+   */
+  schema?: JSONSchema;
+  /**
+   * Task-specific model to run on the cell body instead of the chat model.
+   */
+  task?: Task;
+  /**
+   * Set by `%%batch`: run the cell's prompt over the rows of a data file.
+   */
+  batch?: BatchJob;
+  /**
+   * Tools the model may call; prompts run a tool-use loop while any exist.
+   */
+  tools: ToolRegistry;
+  /**
+   * Interrupt signal and download progress reporting for this cell.
+   */
+  sendOptions: SendOptions;
+  print(text: string): void;
+  /**
+   * Ask the user through an input_request and wait for the answer.
+   */
+  ask: Ask;
+  /**
+   * The kernel's human-in-the-loop settings, shared across cells.
+   */
+  interaction: InteractionSettings;
+  /**
+   * Fence languages whose blocks become new cells, set with %autoinsert.
+   */
+  autoinsert: AutoInsertSettings;
+  /**
+   * Metrics of the kernel's finished turns, for %stats.
+   */
+  stats: TurnStats;
+  /**
+   * Record-and-replay cache shared by the kernel's conversations.
+   */
+  cache: ReplyCache;
+  /**
+   * The kernel's search indexes, and the passages a `%%ask` cell is
+   * grounded in.
+   */
+  library: Library;
+  sources?: Passage[];
+  /**
+   * Images and audio for the cell's prompt, set by `%%chat --image ...`.
+   */
+  attachments?: Attachment[];
+  /**
+   * Read a file from the contents drive, relative to the notebook.
+   */
+  readFile(path: string): Promise<string>;
+  /**
+   * Read a file's bytes from the contents drive, relative to the notebook.
+   */
+  readBinary(path: string): Promise<Blob>;
+  /**
+   * The notebook this kernel runs, as last saved to the drive.
+   */
+  readNotebook(): Promise<any>;
+  /**
+   * Write a file to the contents drive, relative to the notebook.
+   */
+  writeFile(path: string, content: string): Promise<void>;
+  /**
+   * List a directory, given its path from the drive root.
+   */
+  listFiles(path: string): Promise<DriveEntry[]>;
+  /**
+   * Path from the drive root of a path relative to the notebook.
+   */
+  resolvePath(path: string): string;
+  /**
+   * Reload this notebook's stored conversation into the chat session,
+   * returning the number of turns restored.
+   */
+  restoreHistory(): Promise<number>;
+}
+
+/**
+ * A handler may return text to send to the model as the cell's prompt.
+ */
+type MagicHandler = (ctx: MagicContext, args: string, body?: string) => Promise<string | void>;
+
+const MAGIC_LINE = /^(%%?)([A-Za-z_][\w-]*)(?:\s+(.*))?$/;
+
+export function parseCell(code: string): ParsedCell {
+  const lines = code.split("\n");
+  const magics: MagicCall[] = [];
+
+  let i = 0;
+  for (; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const match = MAGIC_LINE.exec(line);
+    if (!match) {
+      // A backslash escapes a prompt line that would read as a magic, e.g. `\%s is ...`
+      if (line.startsWith("\\%")) {
+        lines[i] = lines[i].replace("\\%", "%");
+        return { magics, prompt: lines.slice(magics.length ? i : 0).join("\n") };
+      }
+      break;
+    }
+
+    const [, prefix, name, args = ""] = match;
+    if (prefix === "%%") {
+      magics.push({ name, args: args.trim(), body: lines.slice(i + 1).join("\n") });
+      return { magics, prompt: "" };
+    }
+    magics.push({ name, args: args.trim() });
+  }
+
+  // Leave a magic-free cell exactly as typed
+  return { magics, prompt: magics.length ? lines.slice(i).join("\n") : code };
+}
+
+function parseNumber(name: string, value: string, integer: boolean, min: number): number {
+  const n = Number(value);
+  if (value === "" || !Number.isFinite(n) || n < min || (integer && !Number.isInteger(n))) {
+    const kind = integer ? "an integer" : "a number";
+    throw new Error(`%${name} expects ${kind} >= ${min}, got "${value}".`);
+  }
+  return n;
+}
+
+function conversationName(magic: string, value: string): string {
+  if (!/^[\w-]+$/.test(value)) {
+    throw new Error(`%${magic} expects a conversation name (letters, digits, _ or -), got "${value}".`);
+  }
+  return value;
+}
+
+/**
+ * Parse `--name value` (or `--name=value`) options, checking each against
+ * the values it allows.
+ */
+function parseFlags(magic: string, args: string, allowed: Record<string, string[]>): Record<string, string> {
+  const flags: Record<string, string> = {};
+  const tokens = args.split(/\s+/).filter(Boolean);
+  for (let i = 0; i < tokens.length; i++) {
+    const match = /^--([\w-]+)(?:=(.*))?$/.exec(tokens[i]);
+    if (!match || !(match[1] in allowed)) {
+      const names = Object.keys(allowed).map(n => `--${n}`).join(", ");
+      throw new Error(`%%${magic}: unexpected "${tokens[i]}". Options: ${names}.`);
+    }
+    const [, name, inline] = match;
+    const value = inline ?? tokens[++i] ?? "";
+    if (!allowed[name].includes(value)) {
+      throw new Error(`%%${magic} --${name} expects one of ${allowed[name].join(", ")}, got "${value}".`);
+    }
+    flags[name] = value;
+  }
+  return flags;
+}
+
+function cellOnly(magic: string, body: string | undefined): string {
+  if (body === undefined) {
+    throw new Error(`%${magic} is a cell magic; use %%${magic} with the text below it.`);
+  }
+  return body;
+}
+
+/**
+ * Pull the repeatable `--image <ref>` and `--audio <ref>` options out of
+ * `args`, returning them and what is left.
+ */
+function attachmentFlags(magic: string, args: string): { refs: AttachmentRef[]; rest: string } {
+  const refs: AttachmentRef[] = [];
+  const rest: string[] = [];
+  const tokens = args.split(/\s+/).filter(Boolean);
+  for (let i = 0; i < tokens.length; i++) {
+    const flag = /^--(image|audio)(?:=(.*))?$/.exec(tokens[i]);
+    if (!flag) {
+      rest.push(tokens[i]);
+      continue;
+    }
+    const ref = flag[2] || tokens[++i];
+    if (!ref) {
+      throw new Error(`%%${magic} --${flag[1]} expects a drive path or out:<N>.`);
+    }
+    refs.push({ type: flag[1] as AttachmentRef["type"], ref });
+  }
+  return { refs, rest: rest.join(" ") };
+}
+
+function select(ctx: MagicContext, name: string): void {
+  ctx.conversation = name;
+  ctx.chat = ctx.conversations.open(name);
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+function formatUsage(chat: ChatSession): string {
+  const { used, quota } = chat.usage;
+  if (used === undefined || quota === undefined) {
+    return chat.turnCount ? "not reported by this backend" : "no session yet";
+  }
+  return `${used} / ${quota} tokens (${Math.round((100 * used) / quota)}%)`;
+}
+
+function formatParam(value: number | undefined, fallback: number | undefined): string {
+  if (value !== undefined) {
+    return fallback !== undefined ? `${value} (default ${fallback})` : String(value);
+  }
+  return fallback !== undefined ? `default (${fallback})` : "default";
+}
+
+const handlers: Record<string, MagicHandler> = {
+  // `%%ask [--k <n>] [<folder>]` answers the cell from the best passages of an index
+  async ask(ctx, args, body) {
+    const question = cellOnly("ask", body);
+    const match = /^(?:--k(?:=|\s+)(\S+)\s*)?(.*)$/.exec(args)!;
+    const k = match[1] === undefined ? 4 : parseNumber("ask --k", match[1], true, 1);
+    const folder = match[2].trim();
+    const index = await ctx.library.get(folder ? ctx.resolvePath(folder) : undefined);
+    const passages = index.search(question, k);
+    if (!passages.length) {
+      throw new Error(`Nothing in the index of ${index.stored.id || "/"} matches the question.`);
+    }
+    ctx.sources = passages;
+    return question;
+  },
+
+  // `%autoinsert <language>... | all | off` turns fenced code in replies into new cells
+  async autoinsert(ctx, args) {
+    if (args) {
+      const words = args.split(/[\s,]+/).filter(Boolean);
+      ctx.autoinsert.languages =
+        args === "off" ? [] : words.includes("all") || words.includes("*") ? ["*"] : words.map(normalizeLanguage);
+    }
+    const { languages } = ctx.autoinsert;
+    const shown = !languages.length ? "off" : languages.includes("*") ? "all" : languages.join(", ");
+    ctx.print(`autoinsert = ${shown}\n`);
+  },
+
+  // `%%batch <data> [--concurrency <n>] [--session fresh|clone] [--out <path>] [--resume]`
+  // prompts once per row of a CSV or JSON Lines file
+  async batch(ctx, args, body) {
+    const template = cellOnly("batch", body);
+    const tokens = args.split(/\s+/).filter(Boolean);
+    const job: BatchJob = { input: "", output: "", session: "fresh", concurrency: 1, resume: false };
+    for (let i = 0; i < tokens.length; i++) {
+      const [flag, inline] = tokens[i].split(/=(.*)/);
+      const value = () => inline ?? tokens[++i] ?? "";
+      if (flag === "--concurrency") {
+        job.concurrency = parseNumber("batch --concurrency", value(), true, 1);
+      } else if (flag === "--session") {
+        const session = value();
+        if (!BATCH_SESSIONS.includes(session as BatchSession)) {
+          throw new Error(`%%batch --session expects one of ${BATCH_SESSIONS.join(", ")}, got "${session}".`);
+        }
+        job.session = session as BatchSession;
+      } else if (flag === "--out") {
+        job.output = value();
+      } else if (flag === "--resume") {
+        job.resume = true;
+      } else if (!flag.startsWith("--") && !job.input) {
+        job.input = tokens[i];
+      } else {
+        throw new Error(`%%batch: unexpected "${tokens[i]}". Options: --concurrency, --session, --out, --resume.`);
+      }
+    }
+    if (!job.input) {
+      throw new Error("%%batch expects a CSV or JSON Lines file, e.g. %%batch data/items.csv.");
+    }
+    job.output ||= resultsPath(job.input);
+    if (!template.trim()) {
+      throw new Error("%%batch expects a prompt template in the cell, with {column} placeholders.");
+    }
+    ctx.batch = job;
+    return template;
+  },
+
+  // `%cache [off|record|replay] [--file <path> | --no-file]` records or replays replies
+  async cache(ctx, args) {
+    const { cache } = ctx;
+    const tokens = args.split(/\s+/).filter(Boolean);
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token === "--file") {
+        const path = tokens[++i];
+        if (!path) {
+          throw new Error("%cache --file expects a path, e.g. %cache replay --file replies.json.");
+        }
+        cache.store = new FileCacheStore(path, { readFile: ctx.readFile, writeFile: ctx.writeFile });
+      } else if (token === "--no-file") {
+        cache.store = cacheStore();
+      } else if (CACHE_MODES.includes(token as CacheMode)) {
+        cache.mode = token as CacheMode;
+      } else {
+        throw new Error(`%cache expects one of ${CACHE_MODES.join(", ")}, --file <path> or --no-file, got "${token}".`);
+      }
+    }
+    ctx.print(`cache = ${cache.mode} (${cache.store.label})\n`);
+  },
+
+  // `%%chat <name>` sends this cell to <name>; `%chat <name>` switches to it
+  // `%%chat [<name>] --image <path>|out:<N> --audio <path>` attaches files to the prompt
+  async chat(ctx, args, body) {
+    const { refs, rest } = attachmentFlags("chat", args);
+    if (refs.length) {
+      if (body === undefined) {
+        throw new Error("Attach images and audio with the cell magic, %%chat --image <path>, followed by the prompt.");
+      }
+      if (rest) {
+        select(ctx, conversationName("chat", rest));
+      }
+      ctx.attachments = await Promise.all(refs.map(ref => loadAttachment(ref, ctx)));
+      return body;
+    }
+    if (!args) {
+      ctx.print(`Current conversation: ${ctx.conversations.current}\n`);
+      return;
+    }
+    const name = conversationName("chat", args);
+    select(ctx, name);
+    if (body !== undefined) {
+      return body;
+    }
+    ctx.conversations.current = name;
+    ctx.print(`Switched to conversation "${name}".\n`);
+  },
+
+  // `%clarify on|off` lets the model ask the user a question before answering
+  async clarify(ctx, args) {
+    if (args) {
+      if (args !== "on" && args !== "off") {
+        throw new Error(`%clarify expects on or off, got "${args}".`);
+      }
+      ctx.interaction.clarify = args === "on";
+    }
+    ctx.print(`clarify = ${ctx.interaction.clarify ? "on" : "off"}\n`);
+  },
+
+  // `%confirm <chars>|off` asks whether to continue once a reply is that long
+  async confirm(ctx, args) {
+    if (args) {
+      ctx.interaction.confirmAfter = args === "off" ? null : parseNumber("confirm", args, true, 1);
+    }
+    const { confirmAfter } = ctx.interaction;
+    ctx.print(`confirm = ${confirmAfter ? `after ${confirmAfter} characters` : "off"}\n`);
+  },
+
+  async chats(ctx) {
+    const { conversations } = ctx;
+    const rows = conversations.list();
+    const width = Math.max(...rows.map(([name]) => name.length));
+    const lines = rows.map(([name, chat]) => {
+      const marker = name === conversations.current ? "*" : " ";
+      return `${marker} ${name.padEnd(width)}  ${plural(chat.turnCount, "turn")}`;
+    });
+    ctx.print(lines.join("\n") + "\n");
+  },
+
+  // `%export md|jsonl|ipynb <path>` saves this cell's conversation to the drive
+  async export(ctx, args) {
+    const [format, ...rest] = args.split(/\s+/);
+    const path = rest.join(" ");
+    if (!TRANSCRIPT_FORMATS.includes(format as TranscriptFormat) || !path) {
+      throw new Error(`%export expects a format (${TRANSCRIPT_FORMATS.join(", ")}) and a path, e.g. %export md chat.md.`);
+    }
+    const { chat } = ctx;
+    const header = {
+      conversation: ctx.conversation,
+      backend: chat.backend.label,
+      availability: await chat.availability(),
+      systemPrompt: chat.system,
+      summary: chat.earlierSummary || undefined,
+      ...chat.sampling,
+      exported: new Date().toISOString(),
+    };
+    await ctx.writeFile(path, formatTranscript({ header, turns: chat.messages }, format as TranscriptFormat));
+    ctx.print(`Exported ${plural(chat.turnCount, "turn")} of "${ctx.conversation}" to ${path}.\n`);
+  },
+
+  // `%fork <new> [<from>]` copies <from> (default: this cell's conversation)
+  async fork(ctx, args) {
+    const [to, from = ctx.conversation] = args.split(/\s+/).filter(Boolean);
+    if (!to) {
+      throw new Error("%fork expects a name for the new conversation.");
+    }
+    const chat = await ctx.conversations.fork(conversationName("fork", from), conversationName("fork", to));
+    ctx.print(`Forked "${from}" into "${to}" at ${plural(chat.turnCount, "turn")}. Use %%chat ${to} to continue it.\n`);
+  },
+
+  // `%debug [on|off|<level>]` shows the extension's log in the browser console;
+  // without an argument it toggles debug output
+  async debug(ctx, args) {
+    if (!args) {
+      if (logLevel() === "debug") {
+        resetLogLevel();
+      } else {
+        setLogLevel("debug");
+      }
+    } else if (args === "on") {
+      setLogLevel("debug");
+    } else if (args === "off") {
+      resetLogLevel();
+    } else if (LOG_LEVELS.includes(args as LogLevel)) {
+      setLogLevel(args as LogLevel);
+    } else {
+      throw new Error(`%debug expects on, off or one of ${LOG_LEVELS.join(", ")}, got "${args}".`);
+    }
+    ctx.print(`log level = ${logLevel()}\n`);
+  },
+
+  // `%%detect` lists the likeliest languages of the cell body
+  async detect(ctx, _args, body) {
+    ctx.task = detectTask();
+    return cellOnly("detect", body);
+  },
+
+  // `%download` fetches the model now rather than on the first prompt
+  async download(ctx) {
+    const before = await ctx.chat.availability();
+    await ctx.chat.prepare(ctx.sendOptions);
+    ctx.print(before === "available" ? "Model is already available.\n" : "Model downloaded.\n");
+  },
+
+  // `%import <path> [<name>]` loads a transcript into this (or the named) conversation
+  async import(ctx, args) {
+    const match = /^(.+?)(?:\s+([\w-]+))?$/.exec(args);
+    if (!match) {
+      throw new Error("%import expects the path of an exported transcript.");
+    }
+    const [, path, name] = match;
+    const { header, turns } = parseTranscript(path, await ctx.readFile(path));
+    const target = name ? conversationName("import", name) : ctx.conversation;
+    const chat = ctx.conversations.open(target);
+    chat.load(turns, header.summary);
+    chat.setSystemPrompt(header.systemPrompt ?? "");
+    const { temperature, topK } = header;
+    chat.setSampling({
+      ...(typeof temperature === "number" && { temperature }),
+      ...(typeof topK === "number" && { topK }),
+    });
+    ctx.print(`Imported ${plural(chat.turnCount, "turn")} into "${target}"; the next prompt starts a session from them.\n`);
+  },
+
+  // `%index <folder>` indexes the text, Markdown and notebook files under <folder>
+  async index(ctx, args) {
+    if (!args) {
+      throw new Error("%index expects a folder, e.g. %index docs.");
+    }
+    const folder = ctx.resolvePath(args);
+    const source = { list: ctx.listFiles, read: (path: string) => ctx.readFile(`/${path}`) };
+    const { stored } = await ctx.library.build(source, folder);
+    ctx.print(`Indexed ${plural(stored.passages.length, "passage")} from ${plural(stored.files, "file")} in ${folder || "/"}.\n`);
+  },
+
+  // `%%json [<schema.json> | {...}]` asks for a JSON reply matching the schema
+  async json(ctx, args, body) {
+    if (body === undefined) {
+      throw new Error("%json is a cell magic; use %%json [schema] with the prompt below it.");
+    }
+    let source = args;
+    if (args && !args.startsWith("{")) {
+      source = await ctx.readFile(args);
+    }
+    if (source) {
+      try {
+        ctx.schema = JSON.parse(source);
+      } catch (err: any) {
+        throw new Error(`%%json: ${args.startsWith("{") ? "schema" : args} is not valid JSON (${err?.message ?? err}).`);
+      }
+    }
+    ctx.schema ??= {};
+    return body;
+  },
+
+  async overflow(ctx, args) {
+    if (args) {
+      if (!OVERFLOW_POLICIES.includes(args as OverflowPolicy)) {
+        throw new Error(`%overflow expects one of ${OVERFLOW_POLICIES.join(", ")}, got "${args}".`);
+      }
+      ctx.chat.overflow = args as OverflowPolicy;
+    }
+    ctx.print(`overflow = ${ctx.chat.overflow}\n`);
+  },
+
+  // `%%rewrite [--tone formal] [--length shorter] [--format plain-text]`
+  async rewrite(ctx, args, body) {
+    // Accept the Writer's tone names too, so `--tone formal` reads naturally
+    const tones = [...REWRITER_TONES, "formal", "casual"];
+    const { tone, ...flags } = parseFlags("rewrite", args, { tone: tones, length: REWRITER_LENGTHS, format: TEXT_FORMATS });
+    ctx.task = rewriteTask({ ...flags, tone: tone === "formal" || tone === "casual" ? `more-${tone}` : tone });
+    return cellOnly("rewrite", body);
+  },
+
+  async reset(ctx) {
+    ctx.chat.reset();
+    ctx.print("Conversation reset.\n");
+  },
+
+  async restore(ctx) {
+    const turns = await ctx.restoreHistory();
+    ctx.print(turns ? `Restored ${plural(turns, "turn")} from history.\n` : "No stored history to restore.\n");
+  },
+
+  // `%%summarize [--type key-points] [--length short] [--format plain-text]`
+  async summarize(ctx, args, body) {
+    ctx.task = summarizeTask(parseFlags("summarize", args, { type: SUMMARY_TYPES, length: SUMMARY_LENGTHS, format: TEXT_FORMATS }));
+    return cellOnly("summarize", body);
+  },
+
+  async system(ctx, args, body) {
+    const prompt = body ?? args;
+    ctx.chat.setSystemPrompt(prompt);
+    ctx.print(prompt.trim() ? "System prompt set.\n" : "System prompt cleared.\n");
+  },
+
+  async temperature(ctx, args) {
+    if (!args) {
+      const defaults = await ctx.chat.backend.defaults().catch(() => ({ temperature: undefined }));
+      ctx.print(`temperature = ${formatParam(ctx.chat.sampling.temperature, defaults.temperature)}\n`);
+      return;
+    }
+    const temperature = parseNumber("temperature", args, false, 0);
+    ctx.chat.setSampling({ temperature });
+    ctx.print(`temperature = ${temperature}\n`);
+  },
+
+  // `%%translate en->de`, or `%%translate de` to detect the source language
+  async translate(ctx, args, body) {
+    const match = /^(?:([\w-]+)\s*->\s*)?([\w-]+)$/.exec(args);
+    if (!match) {
+      throw new Error(`%%translate expects <from>-><to> or <to> language codes, e.g. en->de, got "${args}".`);
+    }
+    const [, source, target] = match;
+    ctx.task = translateTask(target, source);
+    return cellOnly("translate", body);
+  },
+
+  // `%%tool [--confirm] <name> [description]`, then the parameters' JSON
+  // Schema, a `---` line and the function body, which gets the arguments as `args`
+  async tool(ctx, args, body) {
+    const [, confirm, name, description = ""] = /^(--confirm\s+)?([A-Za-z_][\w-]*)\s*(.*)$/.exec(args) ?? [];
+    if (!name) {
+      throw new Error("%%tool expects a tool name, e.g. %%tool add Add two numbers.");
+    }
+    const source = cellOnly("tool", body);
+    const sep = source.search(/^---\s*$/m);
+    const schema = sep === -1 ? "" : source.slice(0, sep).trim();
+    const code = sep === -1 ? source : source.slice(source.indexOf("\n", sep) + 1);
+    let parameters;
+    try {
+      parameters = schema ? JSON.parse(schema) : { type: "object" };
+    } catch (err: any) {
+      throw new Error(`%%tool ${name}: parameters are not valid JSON (${err?.message ?? err}).`);
+    }
+    ctx.tools.register(defineTool(name, description, parameters, code, Boolean(confirm)));
+    ctx.print(`Tool "${name}" registered. ${plural(ctx.tools.size, "tool")} available.\n`);
+  },
+
+  // `%tools` lists the registered tools; `%tools clear` removes them all
+  async tools(ctx, args) {
+    if (args === "clear") {
+      ctx.tools.clear();
+      ctx.print("Tools cleared.\n");
+      return;
+    }
+    if (args) {
+      throw new Error(`%tools expects no argument or "clear", got "${args}".`);
+    }
+    const lines = ctx.tools.list().map(t => `${t.name}  ${t.description}`.trimEnd());
+    ctx.print(lines.length ? lines.join("\n") + "\n" : "No tools registered. Define one with %%tool.\n");
+  },
+
+  async tokens(ctx) {
+    ctx.print(
+      [
+        `Conversation: ${ctx.conversation}`,
+        `Input usage:  ${formatUsage(ctx.chat)}`,
+        `Overflow:     ${ctx.chat.overflow}`,
+      ].join("\n") + "\n"
+    );
+  },
+
+  async topk(ctx, args) {
+    if (!args) {
+      const defaults = await ctx.chat.backend.defaults().catch(() => ({ topK: undefined }));
+      ctx.print(`topK = ${formatParam(ctx.chat.sampling.topK, defaults.topK)}\n`);
+      return;
+    }
+    const topK = parseNumber("topk", args, true, 1);
+    ctx.chat.setSampling({ topK });
+    ctx.print(`topK = ${topK}\n`);
+  },
+
+  // `%stats [<conversation>]` summarizes the timings of this kernel's turns;
+  // `%stats reset` forgets them
+  async stats(ctx, args) {
+    if (args === "reset") {
+      ctx.stats.clear();
+      ctx.print("Stats reset.\n");
+      return;
+    }
+    ctx.print(ctx.stats.summary(args || undefined) + "\n");
+  },
+
+  // `%%write [--tone formal] [--length short] [--format plain-text]` writes from the instructions in the cell
+  async write(ctx, args, body) {
+    ctx.task = writeTask(parseFlags("write", args, { tone: WRITER_TONES, length: WRITER_LENGTHS, format: TEXT_FORMATS }));
+    return cellOnly("write", body);
+  },
+
+  async status(ctx) {
+    const { chat } = ctx;
+    const availability = await chat.availability();
+    const defaults = await chat.backend.defaults().catch(() => ({ temperature: undefined, topK: undefined }));
+    const lines = [
+      `Conversation:  ${ctx.conversation}`,
+      `Backend:       ${chat.backend.label}`,
+      `Availability:  ${availability}`,
+      `System prompt: ${chat.system ? JSON.stringify(chat.system) : "(none)"}`,
+      `Temperature:   ${formatParam(chat.sampling.temperature, defaults.temperature)}`,
+      `Top-K:         ${formatParam(chat.sampling.topK, defaults.topK)}`,
+      `Turns:         ${chat.turnCount}`,
+      `Input usage:   ${formatUsage(chat)}`,
+      `Cache:         ${ctx.cache.mode} (${ctx.cache.store.label})`,
+    ];
+    ctx.print(lines.join("\n") + "\n");
+  },
+};
+
+/**
+ * Run one magic against the kernel context. Resolves with the prompt a cell
+ * magic wants sent to the model, if any.
+ */
+export async function runMagic(ctx: MagicContext, magic: MagicCall): Promise<string | void> {
+  const handler = handlers[magic.name.toLowerCase()];
+  if (!handler) {
+    throw new Error(
+      `Unknown magic: %${magic.name}. Available: ${Object.keys(handlers).map(n => `%${n}`).join(", ")}. ` +
+        `To send the line as text, start it with \\%.`
+    );
+  }
+  return handler(ctx, magic.args, magic.body);
+}
@@ -0,0 +1,142 @@
+// built-in-chat/src/metrics.ts
+// Timings of each prompt, attached to the execute reply's metadata and
+// summarized by `%stats`, to compare devices, backends and prompt styles.
+
+import { ChunkHandler, ContextUsage } from "./chat.js";
+
+/**
+ * One turn's numbers. Times are in milliseconds from when the prompt was
+ * sent; rates are over the streaming part of the turn.
+ */
+export interface TurnMetrics {
+  /**
+   * Time to create the model session; null when an existing one was used.
+   */
+  session_ms: number | null;
+  first_chunk_ms: number | null;
+  total_ms: number;
+  chunks: number;
+  characters: number;
+  chunks_per_second: number | null;
+  chars_per_second: number | null;
+  input_usage: number | null;
+  input_quota: number | null;
+}
+
+export interface TurnRecord {
+  conversation: string;
+  backend: string;
+  metrics: TurnMetrics;
+}
+
+const now = () => performance.now();
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Times one turn: wrap its chunk handler with `watch()`, report session
+ * creation with `session()` and call `finish()` once the reply is complete.
+ */
+export class TurnTimer {
+  private started = now();
+  private sessionMs: number | null = null;
+  private firstChunk: number | null = null;
+  private lastChunk: number | null = null;
+  private chunks = 0;
+  private characters = 0;
+
+  session(ms: number): void {
+    // A schema retry or tool call may start another session; count them all
+    this.sessionMs = (this.sessionMs ?? 0) + ms;
+  }
+
+  watch(onChunk: ChunkHandler): ChunkHandler {
+    return chunk => {
+      const time = now();
+      this.firstChunk ??= time;
+      this.lastChunk = time;
+      this.chunks += 1;
+      this.characters += chunk.length;
+      return onChunk(chunk);
+    };
+  }
+
+  finish(usage: ContextUsage): TurnMetrics {
+    const total = now() - this.started;
+    const streaming = this.firstChunk !== null && this.lastChunk! > this.firstChunk ? (this.lastChunk! - this.firstChunk) / 1000 : 0;
+    return {
+      session_ms: this.sessionMs === null ? null : round(this.sessionMs),
+      first_chunk_ms: this.firstChunk === null ? null : round(this.firstChunk - this.started),
+      total_ms: round(total),
+      chunks: this.chunks,
+      characters: this.characters,
+      chunks_per_second: streaming ? round(this.chunks / streaming) : null,
+      chars_per_second: streaming ? round(this.characters / streaming) : null,
+      input_usage: usage.used ?? null,
+      input_quota: usage.quota ?? null,
+    };
+  }
+}
+
+type Measure = "session_ms" | "first_chunk_ms" | "total_ms" | "chunks_per_second" | "chars_per_second";
+
+const MEASURES: [Measure, string][] = [
+  ["session_ms", "Session start (ms)"],
+  ["first_chunk_ms", "First chunk (ms)"],
+  ["total_ms", "Total (ms)"],
+  ["chunks_per_second", "Chunks/s"],
+  ["chars_per_second", "Characters/s"],
+];
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * The metrics of every turn this kernel has run.
+ */
+export class TurnStats {
+  private records: TurnRecord[] = [];
+
+  get size(): number {
+    return this.records.length;
+  }
+
+  add(record: TurnRecord): void {
+    this.records.push(record);
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+
+  /**
+   * A plain-text table of each measure's spread, optionally for one
+   * conversation only.
+   */
+  summary(conversation?: string): string {
+    const records = this.records.filter(r => !conversation || r.conversation === conversation);
+    if (!records.length) {
+      return conversation ? `No turns recorded in "${conversation}".` : "No turns recorded yet.";
+    }
+    const backends = [...new Set(records.map(r => r.backend))].join(", ");
+    const characters = records.reduce((n, r) => n + r.metrics.characters, 0);
+    const rows = [["", "turns", "mean", "median", "min", "max"]];
+    for (const [measure, label] of MEASURES) {
+      const values = records
+        .map(r => r.metrics[measure])
+        .filter((v): v is number => v !== null)
+        .sort((a, b) => a - b);
+      if (!values.length) {
+        continue;
+      }
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      rows.push([label, String(values.length), ...[mean, median(values), values[0], values[values.length - 1]].map(v => String(round(v)))]);
+    }
+    const widths = rows[0].map((_, i) => Math.max(...rows.map(r => r[i].length)));
+    const table = rows.map(r => r.map((cell, i) => (i ? cell.padStart(widths[i]) : cell.padEnd(widths[i]))).join("  "));
+    const turns = records.length === 1 ? "1 turn" : `${records.length} turns`;
+    return [`${turns} on ${backends}, ${characters} characters of replies`, "", ...table].join("\n");
+  }
+}
@@ -0,0 +1,316 @@
+// built-in-chat/src/panel.ts
+// A chat panel in the right sidebar for quick back-and-forth with the model
+// of an open notebook's built-in-chat kernel. It talks to the kernel over the
+// `built-in-chat` comm, so it shares the notebook's conversation and model
+// session, and its turns are kept in the notebook's history. Any exchange
+// can be copied into the notebook as a cell with the reply as its output.
+//
+// Only the DOM is used here, so the federation container can build the
+// panel without bundling JupyterLab; the entry points wrap it in a Widget.
+
+import { COMM_TARGET } from "./comms.js";
+import { DEFAULT_CONVERSATION } from "./conversations.js";
+import { logger } from "./log.js";
+
+const log = logger("panel");
+
+// The parts of a kernel connection and comm that the panel uses
+interface PanelComm {
+  onMsg: (msg: any) => void;
+  open(data?: any): unknown;
+  send(data: any): unknown;
+  close(): unknown;
+  readonly isDisposed: boolean;
+}
+
+interface PanelKernel {
+  readonly id: string;
+  readonly name: string;
+  createComm(targetName: string): PanelComm;
+  interrupt(): Promise<void>;
+}
+
+/**
+ * An open notebook whose kernel the panel can talk to.
+ */
+export interface ChatTarget {
+  path: string;
+  kernel: PanelKernel;
+  /**
+   * Insert cells below the notebook's active cell.
+   */
+  insertCells(cells: object[]): void;
+}
+
+interface Exchange {
+  prompt: string;
+  reply: string;
+  replyNode: HTMLElement;
+  done: boolean;
+}
+
+export function isChatKernel(name: string): boolean {
+  return name === "built-in-chat" || name.startsWith("built-in-chat-");
+}
+
+/**
+ * Open notebooks running a built-in-chat kernel, found through the shell
+ * without depending on the notebook package.
+ */
+export function notebookTargets(app: any): ChatTarget[] {
+  const targets: ChatTarget[] = [];
+  for (const widget of app.shell?.widgets?.("main") ?? []) {
+    const kernel = widget.context?.sessionContext?.session?.kernel;
+    const notebook = widget.content;
+    if (!kernel || !isChatKernel(kernel.name) || !notebook?.model?.sharedModel) {
+      continue;
+    }
+    targets.push({
+      path: widget.context.path,
+      kernel,
+      insertCells: cells => {
+        const index = notebook.activeCellIndex + 1;
+        notebook.model.sharedModel.insertCells(index, cells);
+        notebook.activeCellIndex = index + cells.length - 1;
+      },
+    });
+  }
+  return targets;
+}
+
+/**
+ * The notebook cell that replays an exchange: the prompt, sent to the same
+ * conversation, with the reply as its output.
+ */
+export function exchangeCell(conversation: string, prompt: string, reply: string): object {
+  const source = conversation === DEFAULT_CONVERSATION ? prompt : `%%chat ${conversation}\n${prompt}`;
+  return {
+    cell_type: "code",
+    source,
+    metadata: {},
+    execution_count: null,
+    outputs: [
+      {
+        output_type: "execute_result",
+        execution_count: null,
+        data: { "text/markdown": reply, "text/plain": reply },
+        metadata: { built_in_chat: { conversation } },
+      },
+    ],
+  };
+}
+
+function element<K extends keyof HTMLElementTagNameMap>(tag: K, style: Partial<CSSStyleDeclaration> = {}, text = ""): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tag);
+  Object.assign(node.style, style);
+  node.textContent = text;
+  return node;
+}
+
+export class ChatPanel {
+  readonly node: HTMLElement;
+  private targetSelect: HTMLSelectElement;
+  private conversationInput: HTMLInputElement;
+  private messages: HTMLElement;
+  private input: HTMLTextAreaElement;
+  private sendButton: HTMLButtonElement;
+  private stopButton: HTMLButtonElement;
+  private targets: ChatTarget[] = [];
+  private target: ChatTarget | null = null;
+  private comm: PanelComm | null = null;
+  private conversation = DEFAULT_CONVERSATION;
+  private exchanges = new Map<string, Exchange>();
+  private counter = 0;
+
+  constructor(private findTargets: () => ChatTarget[]) {
+    this.node = element("div", {
+      display: "flex",
+      flexDirection: "column",
+      height: "100%",
+      padding: "8px",
+      boxSizing: "border-box",
+      gap: "6px",
+      fontSize: "var(--jp-ui-font-size1, 13px)",
+      background: "var(--jp-layout-color1, #fff)",
+      color: "var(--jp-ui-font-color1, #000)",
+    });
+
+    const header = element("div", { display: "flex", gap: "4px", alignItems: "center" });
+    this.targetSelect = element("select", { flex: "1", minWidth: "0" });
+    this.targetSelect.title = "Notebook whose kernel to chat with";
+    // The list of notebooks changes as they open and close
+    this.targetSelect.addEventListener("focus", () => this.refresh());
+    this.targetSelect.addEventListener("change", () => this.connect());
+    this.conversationInput = element("input", { width: "7em" });
+    this.conversationInput.value = DEFAULT_CONVERSATION;
+    this.conversationInput.title = "Conversation in that kernel, as in %%chat <name>";
+    this.conversationInput.addEventListener("change", () => this.connect());
+    header.append(this.targetSelect, this.conversationInput);
+
+    this.messages = element("div", { flex: "1", overflowY: "auto", display: "flex", flexDirection: "column", gap: "8px" });
+
+    const footer = element("div", { display: "flex", gap: "4px", alignItems: "flex-end" });
+    this.input = element("textarea", { flex: "1", resize: "vertical", minHeight: "3em", fontFamily: "inherit" });
+    this.input.placeholder = "Message the model (Enter to send, Shift+Enter for a new line)";
+    this.input.addEventListener("keydown", event => {
+      if (event.key === "Enter" && !event.shiftKey) {
+        event.preventDefault();
+        this.send();
+      }
+    });
+    this.sendButton = element("button", {}, "Send");
+    this.sendButton.addEventListener("click", () => this.send());
+    this.stopButton = element("button", { display: "none" }, "Stop");
+    this.stopButton.addEventListener("click", () => {
+      this.target?.kernel.interrupt().catch(err => log.warn("Could not interrupt the kernel", err));
+    });
+    footer.append(this.input, this.sendButton, this.stopButton);
+
+    this.node.append(header, this.messages, footer);
+    this.refresh();
+  }
+
+  /**
+   * Update the list of notebooks, reconnecting if the current one is gone.
+   */
+  refresh(): void {
+    this.targets = this.findTargets();
+    const selected = this.target?.kernel.id;
+    this.targetSelect.replaceChildren(
+      ...this.targets.map(t => {
+        const option = element("option", {}, t.path);
+        option.value = t.kernel.id;
+        option.selected = t.kernel.id === selected;
+        return option;
+      })
+    );
+    if (!this.targets.length) {
+      this.targetSelect.replaceChildren(element("option", {}, "No notebook with a built-in AI kernel"));
+    }
+    if (!this.targets.some(t => t.kernel.id === selected)) {
+      this.connect();
+    }
+  }
+
+  dispose(): void {
+    this.disconnect();
+  }
+
+  private connect(): void {
+    this.disconnect();
+    this.target = this.targets.find(t => t.kernel.id === this.targetSelect.value) ?? this.targets[0] ?? null;
+    this.conversation = this.conversationInput.value.trim() || DEFAULT_CONVERSATION;
+    this.messages.replaceChildren();
+    this.exchanges.clear();
+    this.setBusy(false);
+    if (!this.target) {
+      this.sendButton.disabled = true;
+      return;
+    }
+    this.sendButton.disabled = false;
+    const comm = (this.comm = this.target.kernel.createComm(COMM_TARGET));
+    comm.onMsg = msg => this.receive(msg.content.data);
+    comm.open({ conversation: this.conversation });
+    comm.send({ type: "transcript", id: "transcript" });
+  }
+
+  private disconnect(): void {
+    if (this.comm && !this.comm.isDisposed) {
+      this.comm.close();
+    }
+    this.comm = null;
+  }
+
+  private send(): void {
+    const prompt = this.input.value.trim();
+    if (!prompt || !this.comm || this.sendButton.disabled) {
+      return;
+    }
+    this.input.value = "";
+    const id = `panel-${++this.counter}`;
+    this.exchanges.set(id, this.addExchange(prompt, "", false));
+    this.setBusy(true);
+    this.comm.send({ type: "prompt", id, prompt });
+  }
+
+  private receive(data: any): void {
+    if (data.type === "transcript") {
+      const messages: { role: string; content: string }[] = data.messages ?? [];
+      for (let i = 0; i + 1 < messages.length; i += 2) {
+        this.addExchange(messages[i].content, messages[i + 1].content, true);
+      }
+      return;
+    }
+    const exchange = this.exchanges.get(data.id);
+    if (!exchange) {
+      return;
+    }
+    switch (data.type) {
+      case "progress":
+        exchange.replyNode.textContent = `Downloading model: ${Math.floor(data.loaded * 100)}%`;
+        break;
+      case "chunk":
+        exchange.reply += data.text;
+        exchange.replyNode.textContent = exchange.reply;
+        this.messages.scrollTop = this.messages.scrollHeight;
+        break;
+      case "done":
+        exchange.reply = data.reply;
+        exchange.replyNode.textContent = data.reply;
+        exchange.done = true;
+        this.setBusy(false);
+        break;
+      case "error":
+        exchange.replyNode.textContent = `${exchange.reply}\n${data.ename}: ${data.evalue}`.trim();
+        exchange.replyNode.style.color = "var(--jp-error-color1, #d32f2f)";
+        this.setBusy(false);
+        break;
+    }
+  }
+
+  private addExchange(prompt: string, reply: string, done: boolean): Exchange {
+    const node = element("div", { display: "flex", flexDirection: "column", gap: "2px" });
+    const promptNode = element("div", { fontWeight: "bold", whiteSpace: "pre-wrap" }, prompt);
+    const replyNode = element("div", { whiteSpace: "pre-wrap" }, reply);
+    const exchange: Exchange = { prompt, reply, replyNode, done };
+
+    const insert = element("button", { alignSelf: "flex-end", fontSize: "11px" }, "Insert into notebook");
+    insert.title = "Add this exchange below the notebook's active cell";
+    insert.addEventListener("click", () => {
+      if (!exchange.done) {
+        return;
+      }
+      this.target?.insertCells([exchangeCell(this.conversation, exchange.prompt, exchange.reply)]);
+    });
+
+    node.append(promptNode, replyNode, insert);
+    this.messages.appendChild(node);
+    this.messages.scrollTop = this.messages.scrollHeight;
+    return exchange;
+  }
+
+  private setBusy(busy: boolean): void {
+    this.sendButton.style.display = busy ? "none" : "";
+    this.stopButton.style.display = busy ? "" : "none";
+  }
+}
+
+/**
+ * Add the chat panel to the right sidebar. `Widget` is Lumino's, imported by
+ * the ES entry point or taken from the shared scope by the federation
+ * container.
+ */
+export function installChatPanel(app: any, Widget: any): void {
+  if (typeof document === "undefined" || !app.shell?.add) {
+    return;
+  }
+  const panel = new ChatPanel(() => notebookTargets(app));
+  const widget = new Widget({ node: panel.node });
+  widget.id = "built-in-chat-panel";
+  widget.title.label = "AI Chat";
+  widget.title.caption = "Chat with the built-in AI model of an open notebook";
+  widget.disposed?.connect(() => panel.dispose());
+  app.shell.add(widget, "right", { rank: 1000 });
+  // Pick up notebooks as they are opened or switched to
+  app.shell.currentChanged?.connect(() => panel.refresh());
+}
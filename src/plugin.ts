@@ -0,0 +1,119 @@
+// built-in-chat/src/plugin.ts
+// What the plugin does on activation, shared by the ES entry point and the
+// federation container. Each passes in what it got from JupyterLab, so this
+// module bundles no JupyterLab or Lumino code of its own.
+
+import { createBackend } from "./backends.js";
+import { contentsDrive } from "./drive.js";
+import { BuiltInChatKernel, BuiltInChatKernelClass } from "./kernel.js";
+import { logger } from "./log.js";
+import { installChatPanel } from "./panel.js";
+import { ChatSettings, KernelSpecEntry, kernelSpecEntries, syncKernelSpecs } from "./settings.js";
+import { installStatusBar } from "./status.js";
+
+const log = logger("plugin");
+
+export const PLUGIN_ID = "@wiki3-ai/built-in-chat:plugin";
+
+export interface PluginServices {
+  /**
+   * The kernelspec registry to register the kernels with.
+   */
+  kernelspecs: any;
+  /**
+   * JupyterLite's kernel client, hooked so interrupts reach running prompts.
+   */
+  kernelClient?: any;
+  settingRegistry?: any;
+  /**
+   * Lumino's Widget class. Without it there is no chat panel; the kernels
+   * still work.
+   */
+  Widget?: any;
+}
+
+export function activatePlugin(app: any, Kernel: BuiltInChatKernelClass, services: PluginServices): void {
+  const { kernelspecs, kernelClient, settingRegistry, Widget } = services;
+  log.debug("Activating plugin");
+
+  if (!kernelspecs || typeof kernelspecs.register !== "function") {
+    log.error("kernelspecs.register is not available; kernel will not be registered.", kernelspecs);
+    return;
+  }
+
+  // Running kernels by id, so interrupts can reach them
+  const running = new Map<string, BuiltInChatKernel>();
+
+  // JupyterLite's kernel client treats interrupt as a no-op, and messages
+  // to the kernel queue behind the running cell, so hook the client to stop
+  // our in-flight prompt directly.
+  if (kernelClient && typeof kernelClient.interrupt === "function") {
+    const interrupt = kernelClient.interrupt.bind(kernelClient);
+    kernelClient.interrupt = async (kernelId: string) => {
+      running.get(kernelId)?.interrupt();
+      return interrupt(kernelId);
+    };
+  }
+
+  // Map a kernel back to its notebook, so history follows the notebook
+  const resolvePath = (kernelId: string): string | undefined => {
+    for (const session of app.serviceManager?.sessions?.running() ?? []) {
+      if (session.kernel?.id === kernelId) {
+        return session.path;
+      }
+    }
+    return undefined;
+  };
+  const drive = app.serviceManager?.contents ? contentsDrive(app.serviceManager.contents) : undefined;
+
+  const create = async (entry: KernelSpecEntry, options: any) => {
+    log.debug("Creating BuiltInChatKernel instance", options);
+    const kernel = new Kernel({ ...entry.options, resolvePath, drive, ...options });
+    running.set(kernel.id, kernel);
+    kernel.disposed.connect(() => running.delete(kernel.id));
+    return kernel;
+  };
+
+  // Model availability, download progress and a "Download model now"
+  // button, for the backend the settings pick
+  const statusBar = installStatusBar(createBackend());
+
+  // Register with the defaults now, then again once settings load and
+  // whenever they change, so personas come and go without a reload
+  const registered = new Set<string>();
+  const sync = (settings: ChatSettings) => {
+    try {
+      statusBar.setBackend(
+        createBackend({
+          model: settings.backend || undefined,
+          endpoint: settings.endpoint || undefined,
+          expectedInputLanguages: settings.expectedInputLanguages,
+          expectedOutputLanguages: settings.expectedOutputLanguages,
+        })
+      );
+    } catch (err) {
+      log.warn("Could not show the status of the configured backend", err);
+    }
+    try {
+      syncKernelSpecs(kernelspecs, kernelSpecEntries(settings), registered, create);
+    } catch (err) {
+      log.error("Could not register kernel specs", err);
+    }
+    app.serviceManager?.kernelspecs
+      ?.refreshSpecs()
+      .catch((err: unknown) => log.warn("Could not refresh kernel specs", err));
+  };
+  sync({});
+  settingRegistry
+    ?.load(PLUGIN_ID)
+    .then((settings: any) => {
+      sync(settings.composite as ChatSettings);
+      settings.changed.connect(() => sync(settings.composite as ChatSettings));
+    })
+    .catch((err: unknown) => log.warn("Could not load settings", err));
+
+  // Chat with an open notebook's kernel from the sidebar
+  if (Widget) {
+    installChatPanel(app, Widget);
+  }
+}
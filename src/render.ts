@@ -0,0 +1,221 @@
+// built-in-chat/src/render.ts
+// Renders a streaming reply as a live-updating Markdown display, then
+// replaces it with the cell's execute_result once the reply is complete.
+
+import { ContextUsage } from "./chat.js";
+import { TurnMetrics } from "./metrics.js";
+
+export type JSONValue = string | number | boolean | null | JSONValue[] | { [key: string]: JSONValue };
+
+export type MimeBundle = Record<string, string | string[] | { [key: string]: JSONValue }>;
+
+export interface DisplayContent {
+  data: MimeBundle;
+  metadata: Record<string, JSONValue>;
+  transient: { display_id: string };
+}
+
+export interface ResultContent {
+  data: MimeBundle;
+  metadata: Record<string, JSONValue>;
+  execution_count: number;
+}
+
+/**
+ * Where a MarkdownReply sends its iopub messages; the kernel wires these to
+ * displayData, updateDisplayData and publishExecuteResult.
+ */
+export interface DisplaySink {
+  display(content: DisplayContent): void;
+  update(content: DisplayContent): void;
+  result(content: ResultContent): void;
+}
+
+export interface RenderBudget {
+  /**
+   * Minimum time between display updates, in milliseconds.
+   */
+  intervalMs: number;
+  /**
+   * Update early once this many characters are waiting.
+   */
+  maxPendingChars: number;
+}
+
+export const DEFAULT_RENDER_BUDGET: RenderBudget = {
+  intervalMs: 100,
+  maxPendingChars: 2048,
+};
+
+/**
+ * Kernel-specific metadata for execute replies and results.
+ */
+export function replyMetadata(conversation: string, usage: ContextUsage, metrics?: TurnMetrics): Record<string, JSONValue> {
+  return {
+    built_in_chat: {
+      conversation,
+      input_usage: usage.used ?? null,
+      input_quota: usage.quota ?? null,
+      ...(metrics && { metrics: { ...metrics } }),
+    },
+  };
+}
+
+/**
+ * A structured reply as an application/json bundle, with pretty-printed
+ * text for frontends that cannot render JSON.
+ */
+export function jsonBundle(value: unknown): MimeBundle {
+  return {
+    // nbformat types this as an object, but renderers take any JSON value
+    "application/json": value as { [key: string]: JSONValue },
+    "text/plain": JSON.stringify(value, null, 2),
+  };
+}
+
+let displayCounter = 0;
+
+function newDisplayId(): string {
+  displayCounter += 1;
+  return `built-in-chat-${Date.now().toString(36)}-${displayCounter}`;
+}
+
+/**
+ * A one-off Markdown display, e.g. the sources under a grounded reply.
+ */
+export function markdownDisplay(markdown: string): DisplayContent {
+  return { data: { "text/markdown": markdown, "text/plain": markdown }, metadata: {}, transient: { display_id: newDisplayId() } };
+}
+
+export class MarkdownReply {
+  private text = "";
+  private pendingChars = 0;
+  private lastFlush = 0;
+  private displayId: string | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private sink: DisplaySink, private budget: RenderBudget = DEFAULT_RENDER_BUDGET) {}
+
+  push(chunk: string): void {
+    this.text += chunk;
+    this.pendingChars += chunk.length;
+
+    const now = Date.now();
+    if (!this.displayId || this.pendingChars >= this.budget.maxPendingChars || now - this.lastFlush >= this.budget.intervalMs) {
+      this.flush();
+    } else if (!this.timer) {
+      // Make sure the tail shows up even if the model pauses
+      this.timer = setTimeout(() => this.flush(), this.budget.intervalMs - (now - this.lastFlush));
+    }
+  }
+
+  /**
+   * Swap the live display for the final execute_result. `data` replaces the
+   * Markdown of the streamed text, e.g. with a jsonBundle().
+   */
+  finish(executionCount: number, metadata: Record<string, JSONValue> = {}, data?: MimeBundle): void {
+    this.cancelTimer();
+    if (this.displayId) {
+      this.sink.update(this.content({ "text/plain": "" }));
+    }
+    if (data || this.text) {
+      this.sink.result({
+        data: data ?? this.markdown(),
+        metadata,
+        execution_count: executionCount,
+      });
+    }
+  }
+
+  /**
+   * Blank the live display and start over, e.g. when a reply is re-prompted.
+   */
+  restart(): void {
+    this.cancelTimer();
+    this.text = "";
+    this.pendingChars = 0;
+    if (this.displayId) {
+      this.sink.update(this.content({ "text/plain": "" }));
+    }
+  }
+
+  /**
+   * Leave the partial reply in the live display, e.g. after an interrupt.
+   */
+  abort(): void {
+    this.cancelTimer();
+    if (this.pendingChars) {
+      this.flush();
+    }
+  }
+
+  private flush(): void {
+    this.cancelTimer();
+    this.pendingChars = 0;
+    this.lastFlush = Date.now();
+    if (!this.displayId) {
+      this.displayId = newDisplayId();
+      this.sink.display(this.content(this.markdown()));
+    } else {
+      this.sink.update(this.content(this.markdown()));
+    }
+  }
+
+  private markdown(): MimeBundle {
+    return { "text/markdown": this.text, "text/plain": this.text };
+  }
+
+  private content(data: MimeBundle): DisplayContent {
+    return { data, metadata: {}, transient: { display_id: this.displayId! } };
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * A progress bar in the cell, updated in place.
+ */
+export class ProgressBar {
+  private displayId: string | null = null;
+
+  constructor(private sink: DisplaySink) {}
+
+  update(value: number, max: number, text: string): void {
+    const data: MimeBundle = {
+      "text/html": value < max ? `<progress max="${max}" value="${value}"></progress> ${text}` : text,
+      "text/plain": text,
+    };
+    if (!this.displayId) {
+      this.displayId = newDisplayId();
+      this.sink.display({ data, metadata: {}, transient: { display_id: this.displayId } });
+    } else {
+      this.sink.update({ data, metadata: {}, transient: { display_id: this.displayId } });
+    }
+  }
+}
+
+/**
+ * Model download progress shown in the cell that is waiting for it.
+ */
+export class DownloadProgress {
+  private bar: ProgressBar;
+  private percent = -1;
+
+  constructor(sink: DisplaySink) {
+    this.bar = new ProgressBar(sink);
+  }
+
+  update(loaded: number): void {
+    const percent = Math.floor(loaded * 100);
+    if (percent === this.percent) {
+      return;
+    }
+    this.percent = percent;
+    this.bar.update(percent, 100, percent < 100 ? `Downloading model: ${percent}%` : "Model downloaded.");
+  }
+}
@@ -0,0 +1,277 @@
+// built-in-chat/src/retrieval.ts
+// Local retrieval over files on the contents drive. `%index` splits text,
+// Markdown and notebook files into passages and keeps them in IndexedDB;
+// `%%ask` ranks passages against the question with BM25 and grounds the
+// prompt in the best ones. Nothing leaves the browser.
+
+import { DriveEntry } from "./drive.js";
+import { get, hasIndexedDB, put } from "./idb.js";
+
+export interface Passage {
+  /**
+   * Drive path of the file the passage comes from.
+   */
+  source: string;
+  text: string;
+}
+
+export interface StoredIndex {
+  /**
+   * Drive path of the indexed folder.
+   */
+  id: string;
+  created: string;
+  files: number;
+  passages: Passage[];
+}
+
+export interface IndexStore {
+  save(index: StoredIndex): Promise<void>;
+  load(folder: string): Promise<StoredIndex | undefined>;
+}
+
+class IndexedDBIndexStore implements IndexStore {
+  async save(index: StoredIndex): Promise<void> {
+    await put("retrieval", index);
+  }
+
+  async load(folder: string): Promise<StoredIndex | undefined> {
+    return get<StoredIndex>("retrieval", folder);
+  }
+}
+
+// Used where IndexedDB is missing, e.g. under Node
+class MemoryIndexStore implements IndexStore {
+  private indexes = new Map<string, StoredIndex>();
+
+  async save(index: StoredIndex): Promise<void> {
+    this.indexes.set(index.id, index);
+  }
+
+  async load(folder: string): Promise<StoredIndex | undefined> {
+    return this.indexes.get(folder);
+  }
+}
+
+export function indexStore(): IndexStore {
+  return hasIndexedDB() ? new IndexedDBIndexStore() : new MemoryIndexStore();
+}
+
+export const INDEXED_EXTENSIONS = [".md", ".markdown", ".txt", ".rst", ".ipynb"];
+
+// Target passage length, in words
+const PASSAGE_WORDS = 150;
+
+const STOPWORDS = new Set(
+  "a an and are as at be but by for from has have how i if in into is it its of on or that the their there this to was what when where which who why will with you your".split(
+    " "
+  )
+);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function countWords(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+/**
+ * Split text into passages of about PASSAGE_WORDS words, breaking at
+ * paragraphs and starting a new passage at each Markdown heading.
+ */
+export function chunkText(text: string): string[] {
+  const passages: string[] = [];
+  let current: string[] = [];
+  let words = 0;
+  const flush = () => {
+    if (current.length) {
+      passages.push(current.join("\n\n"));
+    }
+    current = [];
+    words = 0;
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    const n = countWords(paragraph);
+    if (/^#{1,6}\s/.test(paragraph) || words + n > PASSAGE_WORDS) {
+      flush();
+    }
+    if (n > PASSAGE_WORDS) {
+      // Split very long paragraphs on word boundaries
+      const tokens = paragraph.split(/\s+/);
+      for (let i = 0; i < tokens.length; i += PASSAGE_WORDS) {
+        passages.push(tokens.slice(i, i + PASSAGE_WORDS).join(" "));
+      }
+      continue;
+    }
+    current.push(paragraph);
+    words += n;
+  }
+  flush();
+  return passages;
+}
+
+/**
+ * The text of a notebook's cells, from its JSON.
+ */
+export function notebookText(json: string): string {
+  const notebook = JSON.parse(json);
+  return (notebook.cells ?? [])
+    .map((cell: any) => (Array.isArray(cell.source) ? cell.source.join("") : String(cell.source ?? "")))
+    .join("\n\n");
+}
+
+/**
+ * What `buildIndex` needs from the drive; paths are from the drive root.
+ */
+export interface IndexSource {
+  list(path: string): Promise<DriveEntry[]>;
+  read(path: string): Promise<string>;
+}
+
+/**
+ * Walk `folder` and split every indexable file into passages.
+ */
+export async function buildIndex(source: IndexSource, folder: string): Promise<StoredIndex> {
+  const passages: Passage[] = [];
+  let files = 0;
+  const walk = async (path: string) => {
+    for (const entry of await source.list(path)) {
+      if (entry.type === "directory") {
+        await walk(entry.path);
+        continue;
+      }
+      const name = entry.name.toLowerCase();
+      if (!INDEXED_EXTENSIONS.some(ext => name.endsWith(ext))) {
+        continue;
+      }
+      const content = await source.read(entry.path);
+      const text = entry.type === "notebook" || name.endsWith(".ipynb") ? notebookText(content) : content;
+      passages.push(...chunkText(text).map(t => ({ source: entry.path, text: t })));
+      files += 1;
+    }
+  };
+  await walk(folder);
+  return { id: folder, created: new Date().toISOString(), files, passages };
+}
+
+/**
+ * Okapi BM25 ranking over a stored index.
+ */
+export class SearchIndex {
+  private terms: Map<string, number>[];
+  private lengths: number[];
+  private documentFrequency = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(readonly stored: StoredIndex, private k1 = 1.2, private b = 0.75) {
+    this.terms = stored.passages.map(p => {
+      const counts = new Map<string, number>();
+      for (const token of tokenize(p.text)) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+      }
+      for (const token of counts.keys()) {
+        this.documentFrequency.set(token, (this.documentFrequency.get(token) ?? 0) + 1);
+      }
+      return counts;
+    });
+    this.lengths = this.terms.map(counts => [...counts.values()].reduce((a, b) => a + b, 0));
+    this.averageLength = this.lengths.reduce((a, b) => a + b, 0) / Math.max(1, this.lengths.length);
+  }
+
+  /**
+   * The `k` passages that best match `query`, best first.
+   */
+  search(query: string, k: number): Passage[] {
+    const tokens = [...new Set(tokenize(query))];
+    const n = this.terms.length;
+    const scored = this.terms.map((counts, i) => {
+      const length = this.lengths[i];
+      let score = 0;
+      for (const token of tokens) {
+        const tf = counts.get(token);
+        if (!tf) continue;
+        const df = this.documentFrequency.get(token) ?? 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += (idf * tf * (this.k1 + 1)) / (tf + this.k1 * (1 - this.b + (this.b * length) / this.averageLength));
+      }
+      return { i, score };
+    });
+    return scored
+      .filter(s => s.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map(s => this.stored.passages[s.i]);
+  }
+}
+
+/**
+ * The kernel's search indexes: built ones stay loaded, others are read
+ * back from the store on first use.
+ */
+export class Library {
+  /**
+   * Folder of the most recently built or used index.
+   */
+  latest: string | null = null;
+  private loaded = new Map<string, SearchIndex>();
+
+  constructor(private store: IndexStore = indexStore()) {}
+
+  async build(source: IndexSource, folder: string): Promise<SearchIndex> {
+    const index = new SearchIndex(await buildIndex(source, folder));
+    await this.store.save(index.stored);
+    this.loaded.set(folder, index);
+    this.latest = folder;
+    return index;
+  }
+
+  async get(folder?: string): Promise<SearchIndex> {
+    const name = folder ?? this.latest;
+    if (name === null) {
+      throw new Error("No index yet. Build one with %index <folder>.");
+    }
+    let index = this.loaded.get(name);
+    if (!index) {
+      const stored = await this.store.load(name);
+      if (!stored) {
+        throw new Error(`No index for "${name || "/"}". Build one with %index ${name || "/"}.`);
+      }
+      index = new SearchIndex(stored);
+      this.loaded.set(name, index);
+    }
+    this.latest = name;
+    return index;
+  }
+}
+
+/**
+ * Wrap a question with numbered passages to cite.
+ */
+export function groundedPrompt(question: string, passages: Passage[]): string {
+  const sources = passages.map((p, i) => `[${i + 1}] (${p.source})\n${p.text}`).join("\n\n");
+  return [
+    "Answer the question using only the sources below. Cite the sources you use as [1], [2] and so on.",
+    "If the sources do not contain the answer, say so.",
+    "",
+    sources,
+    "",
+    `Question: ${question}`,
+  ].join("\n");
+}
+
+/**
+ * Markdown list of the passages a reply was grounded in.
+ */
+export function formatSources(passages: Passage[]): string {
+  const excerpt = (text: string) => {
+    const flat = text.replace(/\s+/g, " ").trim();
+    return flat.length > 160 ? `${flat.slice(0, 160)}…` : flat;
+  };
+  const items = passages.map((p, i) => `${i + 1}. \`${p.source}\`: ${excerpt(p.text)}`);
+  return ["**Sources**", "", ...items].join("\n");
+}
@@ -0,0 +1,207 @@
+// built-in-chat/src/schema.ts
+// Structured JSON replies. The schema is passed to the backend as a
+// `responseConstraint`; since not every backend enforces it, replies are also
+// checked here and re-prompted with the problem when they do not match.
+//
+// The validator covers the common part of JSON Schema: type, enum, const,
+// properties, required, additionalProperties, items, min/max (Length, Items,
+// imum), pattern, anyOf, oneOf and allOf.
+
+import { ChatSession, ChunkHandler, SendOptions } from "./chat.js";
+import { SchemaValidationError } from "./errors.js";
+import { logger } from "./log.js";
+
+const log = logger("schema");
+
+export type JSONSchema = { [key: string]: any };
+
+export interface SchemaIssue {
+  /**
+   * Where the value went wrong, e.g. "$.items[2].price".
+   */
+  path: string;
+  message: string;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Check `value` against `schema`, returning the first problem found.
+ */
+export function validate(value: unknown, schema: JSONSchema, path = "$"): SchemaIssue | null {
+  if (typeof schema !== "object" || schema === null) {
+    return null;
+  }
+  const fail = (message: string): SchemaIssue => ({ path, message });
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      return fail(`expected ${types.join(" or ")}, got ${typeOf(value)}`);
+    }
+  }
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    return fail(`expected ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((e: unknown) => JSON.stringify(e) === JSON.stringify(value))) {
+    return fail(`expected one of ${schema.enum.map((e: unknown) => JSON.stringify(e)).join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return fail(`expected at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return fail(`expected at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      return fail(`expected to match /${schema.pattern}/`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return fail(`expected >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return fail(`expected <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return fail(`expected at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return fail(`expected at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === "object") {
+      for (let i = 0; i < value.length; i++) {
+        const issue = validate(value[i], schema.items, childPath(path, i));
+        if (issue) return issue;
+      }
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) {
+        return { path: childPath(path, key), message: "is required" };
+      }
+    }
+    const properties: Record<string, JSONSchema> = schema.properties ?? {};
+    for (const [key, child] of Object.entries(obj)) {
+      if (key in properties) {
+        const issue = validate(child, properties[key], childPath(path, key));
+        if (issue) return issue;
+      } else if (schema.additionalProperties === false) {
+        return { path: childPath(path, key), message: "is not allowed" };
+      } else if (typeof schema.additionalProperties === "object") {
+        const issue = validate(child, schema.additionalProperties, childPath(path, key));
+        if (issue) return issue;
+      }
+    }
+  }
+
+  for (const sub of schema.allOf ?? []) {
+    const issue = validate(value, sub, path);
+    if (issue) return issue;
+  }
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((sub: JSONSchema) => !validate(value, sub, path))) {
+    return fail("does not match any of the allowed schemas");
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((sub: JSONSchema) => !validate(value, sub, path)).length;
+    if (matches !== 1) {
+      return fail(`expected to match exactly one schema, matched ${matches}`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a model reply as JSON, tolerating a surrounding ``` fence.
+ */
+export function parseJSONReply(text: string): unknown {
+  const fenced = /^\s*```(?:json)?\s*\n([\s\S]*?)\n?```\s*$/.exec(text);
+  return JSON.parse(fenced ? fenced[1] : text);
+}
+
+// Corrective prompts sent after the first reply before giving up
+const MAX_RETRIES = 2;
+
+export interface StructuredOptions extends SendOptions {
+  /**
+   * Called before a corrective prompt, so the caller can clear the
+   * rejected reply from its display.
+   */
+  onRetry?: (issue: SchemaIssue) => void;
+}
+
+function instructions(schema: JSONSchema): string {
+  if (!Object.keys(schema).length) {
+    return "Reply with JSON only.";
+  }
+  return `Reply with JSON only, matching this JSON Schema:\n${JSON.stringify(schema)}`;
+}
+
+function check(text: string, schema: JSONSchema): { value?: unknown; issue?: SchemaIssue } {
+  let value: unknown;
+  try {
+    value = parseJSONReply(text);
+  } catch (err: any) {
+    return { issue: { path: "$", message: `is not valid JSON (${err?.message ?? err})` } };
+  }
+  return { value, issue: validate(value, schema) ?? undefined };
+}
+
+/**
+ * Send `prompt` and parse the reply as JSON matching `schema`. Rejects with
+ * a SchemaValidationError if the reply still does not match after retrying.
+ */
+export async function sendStructured(
+  chat: ChatSession,
+  prompt: string,
+  schema: JSONSchema,
+  onChunk?: ChunkHandler,
+  options: StructuredOptions = {}
+): Promise<unknown> {
+  const { onRetry, attachments, ...promptOptions } = options;
+  const sendOptions = { ...promptOptions, responseConstraint: schema };
+
+  // Retries refer back to the first turn, so attachments go with it only
+  let text = await chat.send(`${prompt}\n\n${instructions(schema)}`, onChunk, { ...sendOptions, attachments });
+  let result = check(text, schema);
+  for (let attempt = 0; result.issue && attempt < MAX_RETRIES; attempt++) {
+    const { path, message } = result.issue;
+    log.info(`Reply failed schema at ${path} (${message}), retrying`);
+    onRetry?.(result.issue);
+    text = await chat.send(
+      `That reply was rejected: ${path} ${message}. ${instructions(schema)} Do not repeat the mistake.`,
+      onChunk,
+      sendOptions
+    );
+    result = check(text, schema);
+  }
+  if (result.issue) {
+    throw new SchemaValidationError(result.issue.path, result.issue.message);
+  }
+  return result.value;
+}
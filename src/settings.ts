@@ -0,0 +1,137 @@
+// built-in-chat/src/settings.ts
+// Plugin settings (schema/plugin.json) and the kernelspecs they give: one per
+// backend plus one per persona, each starting kernels with its own system
+// prompt and sampling. Specs are re-registered whenever the settings change.
+
+import { BACKEND_KERNELSPECS } from "./backends.js";
+import { logger } from "./log.js";
+
+const log = logger();
+
+/**
+ * Settings that apply to every kernelspec unless a persona overrides them.
+ */
+export interface ChatDefaults {
+  /**
+   * Model spec for the main kernelspec and for personas that do not name
+   * one, e.g. "chrome" or "openai:llama3.2".
+   */
+  backend?: string;
+  endpoint?: string;
+  systemPrompt?: string;
+  temperature?: number | null;
+  topK?: number | null;
+  expectedInputLanguages?: string[];
+  expectedOutputLanguages?: string[];
+}
+
+export interface Persona extends ChatDefaults {
+  /**
+   * Identifier used in the kernelspec name; letters, digits, _ and -.
+   */
+  name: string;
+  displayName: string;
+}
+
+export interface ChatSettings extends ChatDefaults {
+  personas?: Persona[];
+}
+
+/**
+ * What a kernelspec passes to the kernels it creates.
+ */
+export interface SpecOptions {
+  model?: string;
+  endpoint?: string;
+  systemPrompt?: string;
+  temperature?: number;
+  topK?: number;
+  expectedInputLanguages?: string[];
+  expectedOutputLanguages?: string[];
+}
+
+export interface KernelSpecEntry {
+  name: string;
+  display_name: string;
+  options: SpecOptions;
+}
+
+export const PERSONA_SPEC_PREFIX = "built-in-chat-persona-";
+
+// Unset, null and empty values fall through to the next level
+function specOptions(defaults: ChatDefaults): SpecOptions {
+  const options: SpecOptions = {};
+  if (defaults.endpoint) options.endpoint = defaults.endpoint;
+  if (defaults.systemPrompt?.trim()) options.systemPrompt = defaults.systemPrompt;
+  if (typeof defaults.temperature === "number") options.temperature = defaults.temperature;
+  if (typeof defaults.topK === "number") options.topK = defaults.topK;
+  if (defaults.expectedInputLanguages?.length) options.expectedInputLanguages = defaults.expectedInputLanguages;
+  if (defaults.expectedOutputLanguages?.length) options.expectedOutputLanguages = defaults.expectedOutputLanguages;
+  return options;
+}
+
+/**
+ * The kernelspecs to register for `settings`: the backend ones with the
+ * defaults applied, then one per persona. The `backend` setting picks the
+ * model of the main spec; the others keep their own.
+ */
+export function kernelSpecEntries(settings: ChatSettings = {}): KernelSpecEntry[] {
+  const defaults = specOptions(settings);
+  const entries: KernelSpecEntry[] = BACKEND_KERNELSPECS.map(({ name, display_name, model }, i) => ({
+    name,
+    display_name,
+    options: { ...defaults, model: i === 0 ? settings.backend || model : model },
+  }));
+  for (const persona of settings.personas ?? []) {
+    if (!/^[\w-]+$/.test(persona.name ?? "")) {
+      log.warn(`Skipping persona with invalid name "${persona.name}"`);
+      continue;
+    }
+    entries.push({
+      name: `${PERSONA_SPEC_PREFIX}${persona.name}`,
+      display_name: `Built-in AI: ${persona.displayName || persona.name}`,
+      options: { ...defaults, ...specOptions(persona), model: persona.backend || settings.backend || "chrome" },
+    });
+  }
+  return entries;
+}
+
+function register(kernelspecs: any, name: string, displayName: string, create: (options: any) => Promise<any>): void {
+  kernelspecs.register({
+    spec: {
+      name,
+      display_name: displayName,
+      language: "python", // purely cosmetic; syntax highlighting
+      argv: [],
+      resources: {},
+    },
+    create,
+  });
+}
+
+/**
+ * Register a kernelspec per entry. IKernelSpecs has no unregister, so a spec
+ * in `registered` that is no longer wanted is registered again, marked as
+ * removed, with a factory that refuses to start it. `registered` holds the
+ * names registered so far.
+ */
+export function syncKernelSpecs(
+  kernelspecs: any,
+  entries: KernelSpecEntry[],
+  registered: Set<string>,
+  create: (entry: KernelSpecEntry, options: any) => Promise<any>
+): void {
+  for (const name of registered) {
+    if (!entries.some(e => e.name === name)) {
+      register(kernelspecs, name, `${name.replace(PERSONA_SPEC_PREFIX, "Built-in AI: ")} (removed)`, async () => {
+        throw new Error(`The kernel "${name}" was removed from the Built-in AI Chat settings. Choose another kernel.`);
+      });
+      log.info(`Kernel spec '${name}' disabled`);
+    }
+  }
+  for (const entry of entries) {
+    register(kernelspecs, entry.name, entry.display_name, options => create(entry, options));
+    registered.add(entry.name);
+    log.info(`Kernel spec '${entry.name}' registered`);
+  }
+}
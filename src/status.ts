@@ -0,0 +1,183 @@
+// built-in-chat/src/status.ts
+// Model availability and download progress. Progress is broadcast as a
+// `builtinai:model-progress` window event, which the status bar (and anything
+// else on the page) can listen for.
+
+import { Availability, ChatBackend, DownloadMonitor } from "./backends.js";
+import { logger } from "./log.js";
+
+const log = logger("status");
+
+export const MODEL_PROGRESS_EVENT = "builtinai:model-progress";
+
+export interface ModelProgress {
+  /**
+   * Label of the backend the model belongs to.
+   */
+  backend: string;
+  availability: Availability;
+  /**
+   * Download progress between 0 and 1, while downloading.
+   */
+  progress?: number;
+  text: string;
+}
+
+export function availabilityText(availability: Availability): string {
+  switch (availability) {
+    case "available":
+      return "model ready";
+    case "downloadable":
+      return "model not downloaded yet";
+    case "downloading":
+      return "downloading model…";
+    default:
+      return "unavailable in this browser";
+  }
+}
+
+export function dispatchModelProgress(detail: ModelProgress): void {
+  if (typeof window !== "undefined" && typeof CustomEvent !== "undefined") {
+    window.dispatchEvent(new CustomEvent(MODEL_PROGRESS_EVENT, { detail }));
+  }
+}
+
+/**
+ * A `monitor` for creating a model that reports download progress to the
+ * page and to `onProgress`. `label` names the model's backend or API.
+ */
+export function monitorDownload(label: string, onProgress?: (loaded: number) => void): (m: DownloadMonitor) => void {
+  return m => {
+    m.addEventListener("downloadprogress", (e: ProgressEvent) => {
+      // e.loaded is a value between 0 and 1 representing download progress
+      const progress = e.loaded;
+      log.debug(`Downloading model: ${Math.round(progress * 100)}%`);
+      dispatchModelProgress({
+        backend: label,
+        availability: progress < 1 ? "downloading" : "available",
+        progress,
+        text: progress < 1 ? `downloading model ${Math.round(progress * 100)}%` : availabilityText("available"),
+      });
+      onProgress?.(progress);
+    });
+  };
+}
+
+/**
+ * Check the backend and broadcast its availability.
+ */
+export async function reportAvailability(backend: ChatBackend): Promise<Availability> {
+  let availability: Availability;
+  try {
+    availability = await backend.availability();
+  } catch {
+    availability = "unavailable";
+  }
+  dispatchModelProgress({ backend: backend.label, availability, text: availabilityText(availability) });
+  return availability;
+}
+
+/**
+ * Fetch the backend's model ahead of the first prompt. Chrome only starts a
+ * download from a user gesture, so call this from a click handler.
+ */
+export async function downloadModel(backend: ChatBackend, onProgress?: (loaded: number) => void): Promise<Availability> {
+  const availability = await reportAvailability(backend);
+  if (availability !== "downloadable" && availability !== "downloading") {
+    return availability;
+  }
+  const session = await backend.create({ monitor: monitorDownload(backend.label, onProgress) });
+  session.destroy();
+  return reportAvailability(backend);
+}
+
+export interface StatusBar {
+  /**
+   * Show the availability of another backend, e.g. after the settings change.
+   */
+  setBackend(backend: ChatBackend): void;
+}
+
+/**
+ * Add the floating model status bar to the page, with a "Download model now"
+ * button while the model still has to be fetched.
+ */
+export function installStatusBar(backend: ChatBackend): StatusBar {
+  let current = backend;
+  if (typeof document === "undefined") {
+    return {
+      setBackend: b => {
+        current = b;
+      },
+    };
+  }
+  const bar = document.createElement("div");
+  bar.style.position = "fixed";
+  bar.style.top = "8px";
+  bar.style.right = "8px";
+  bar.style.zIndex = "9999";
+  bar.style.padding = "4px 8px";
+  bar.style.background = "rgba(0,0,0,0.7)";
+  bar.style.color = "#fff";
+  bar.style.fontSize = "12px";
+  bar.style.borderRadius = "4px";
+  bar.style.display = "flex";
+  bar.style.gap = "4px";
+  bar.style.alignItems = "center";
+
+  const label = document.createElement("span");
+  label.textContent = `${current.label}:`;
+  bar.appendChild(label);
+
+  const progress = document.createElement("progress");
+  progress.max = 1;
+  progress.value = 0;
+  progress.style.width = "120px";
+  progress.style.display = "none";
+  bar.appendChild(progress);
+
+  const status = document.createElement("span");
+  status.textContent = "";
+  bar.appendChild(status);
+
+  const download = document.createElement("button");
+  download.textContent = "Download model now";
+  download.style.display = "none";
+  download.style.fontSize = "11px";
+  download.addEventListener("click", () => {
+    download.disabled = true;
+    downloadModel(current)
+      .catch(err => {
+        log.warn("Model download failed", err);
+        status.textContent = `download failed: ${err?.message ?? err}`;
+      })
+      .finally(() => {
+        download.disabled = false;
+      });
+  });
+  bar.appendChild(download);
+
+  window.addEventListener(MODEL_PROGRESS_EVENT, (ev: any) => {
+    const { backend: from, availability, progress: p, text } = ev.detail as ModelProgress;
+    // Kernels on other backends report too; show only the configured one
+    if (from !== current.label) {
+      return;
+    }
+    progress.style.display = p !== undefined && p < 1 ? "inline-block" : "none";
+    progress.value = p ?? 0;
+    status.textContent = text ?? "";
+    download.style.display = availability === "downloadable" ? "inline-block" : "none";
+  });
+
+  document.body.appendChild(bar);
+  reportAvailability(current);
+
+  return {
+    setBackend: b => {
+      current = b;
+      label.textContent = `${b.label}:`;
+      status.textContent = "";
+      reportAvailability(b);
+    },
+  };
+}
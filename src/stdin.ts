@@ -0,0 +1,126 @@
+// built-in-chat/src/stdin.ts
+// Asking the user things in the middle of a cell, through Jupyter's stdin
+// channel: clarifying questions from the model, confirmation of tools marked
+// `confirm`, and whether to keep going with a long reply.
+
+import { ChunkHandler } from "./chat.js";
+import { ChatInterruptedError } from "./errors.js";
+import { Tool, ToolCall } from "./tools.js";
+
+/**
+ * Human-in-the-loop settings of a kernel, changed with %clarify and %confirm.
+ */
+export interface InteractionSettings {
+  /**
+   * Let the model ask the user a clarifying question.
+   */
+  clarify: boolean;
+  /**
+   * Ask whether to continue once a reply grows past this many characters.
+   */
+  confirmAfter: number | null;
+}
+
+export type Ask = (prompt: string, password?: boolean) => Promise<string>;
+
+// Clarifying questions allowed per cell, on top of MAX_TOOL_CALLS
+export const MAX_QUESTIONS = 3;
+
+export class StdinBroker {
+  private waiting: ((value: string) => void) | null = null;
+
+  /**
+   * @param send Sends an input_request as a reply to `parentHeader`.
+   */
+  constructor(private send: (content: { prompt: string; password: boolean }, parentHeader: any) => void) {}
+
+  /**
+   * Send an input_request and wait for the answer. Aborting `signal` gives
+   * up waiting with a ChatInterruptedError.
+   */
+  ask(prompt: string, parentHeader: any, options: { password?: boolean; signal?: AbortSignal } = {}): Promise<string> {
+    const { password = false, signal } = options;
+    if (this.waiting) {
+      return Promise.reject(new Error("Already waiting for input."));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new ChatInterruptedError(""));
+    }
+    return new Promise((resolve, reject) => {
+      const abort = () => {
+        this.waiting = null;
+        reject(new ChatInterruptedError(""));
+      };
+      signal?.addEventListener("abort", abort, { once: true });
+      this.waiting = value => {
+        signal?.removeEventListener("abort", abort);
+        this.waiting = null;
+        resolve(value);
+      };
+      this.send({ prompt, password }, parentHeader);
+    });
+  }
+
+  /**
+   * Hand the content of an input_reply to whoever is waiting.
+   */
+  reply(content: { value?: string }): void {
+    this.waiting?.(String(content?.value ?? ""));
+  }
+}
+
+export function isYes(answer: string): boolean {
+  return /^\s*y(es)?\s*$/i.test(answer);
+}
+
+/**
+ * A built-in tool through which the model asks the user a question.
+ */
+export function askUserTool(ask: Ask): Tool {
+  let asked = 0;
+  return {
+    name: "ask_user",
+    description:
+      "Ask the user a short clarifying question when the request is ambiguous or missing details. Returns their answer.",
+    parameters: {
+      type: "object",
+      properties: { question: { type: "string" } },
+      required: ["question"],
+    },
+    async run(args) {
+      if (++asked > MAX_QUESTIONS) {
+        return "Error: no more questions allowed; answer with what you know.";
+      }
+      return ask(`${String(args.question).trim()} `);
+    },
+  };
+}
+
+/**
+ * Ask before running a tool call.
+ */
+export async function confirmCall(call: ToolCall, ask: Ask): Promise<boolean> {
+  return isYes(await ask(`Run ${call.name}(${JSON.stringify(call.arguments)})? [y/N] `));
+}
+
+/**
+ * Wrap a chunk handler so the stream pauses once `after` characters have
+ * come in, and stops there unless the user wants more.
+ */
+export function confirmLongReply(onChunk: ChunkHandler, after: number | null, ask: Ask): ChunkHandler {
+  if (!after) {
+    return onChunk;
+  }
+  let received = 0;
+  let confirmed = false;
+  return async chunk => {
+    await onChunk(chunk);
+    received += chunk.length;
+    if (!confirmed && received >= after) {
+      confirmed = true;
+      if (!isYes(await ask(`The reply is over ${after} characters. Keep generating? [y/N] `))) {
+        throw new ChatInterruptedError("");
+      }
+    }
+  };
+}
@@ -0,0 +1,194 @@
+// built-in-chat/src/tasks.ts
+// Chrome's task-specific built-in AI APIs: Summarizer, Translator,
+// LanguageDetector, Writer and Rewriter. Each run checks availability,
+// downloads the model if needed, streams the result and releases the model
+// again, like a one-shot ChatSession.send.
+
+import { Availability, DownloadMonitor } from "./backends.js";
+import { ChunkHandler, SendOptions, readStream } from "./chat.js";
+import { ChatInterruptedError } from "./errors.js";
+import { monitorDownload } from "./status.js";
+
+interface CreateOptions {
+  signal?: AbortSignal;
+  monitor?: (monitor: DownloadMonitor) => void;
+}
+
+interface StreamOptions {
+  signal?: AbortSignal;
+}
+
+// The slice of each API the kernel uses; all live on globalThis in Chrome
+interface TaskAPI<T> {
+  availability(options?: object): Promise<Availability>;
+  create(options?: object & CreateOptions): Promise<T & { destroy(): void }>;
+}
+
+interface SummarizerModel {
+  summarizeStreaming(input: string, options?: StreamOptions): ReadableStream<string>;
+}
+
+interface TranslatorModel {
+  translateStreaming(input: string, options?: StreamOptions): ReadableStream<string>;
+}
+
+interface LanguageDetectorModel {
+  detect(input: string, options?: StreamOptions): Promise<{ detectedLanguage: string; confidence: number }[]>;
+}
+
+interface WriterModel {
+  writeStreaming(input: string, options?: StreamOptions): ReadableStream<string>;
+}
+
+interface RewriterModel {
+  rewriteStreaming(input: string, options?: StreamOptions): ReadableStream<string>;
+}
+
+/**
+ * A one-shot job a cell magic hands to the kernel in place of a chat prompt.
+ */
+export interface Task {
+  readonly label: string;
+  /**
+   * Run the task on the cell body, streaming the result through `onChunk`.
+   */
+  run(input: string, onChunk?: ChunkHandler, options?: SendOptions): Promise<string>;
+}
+
+export const SUMMARY_TYPES = ["tldr", "key-points", "teaser", "headline"];
+export const SUMMARY_LENGTHS = ["short", "medium", "long"];
+export const WRITER_TONES = ["formal", "neutral", "casual"];
+export const WRITER_LENGTHS = ["short", "medium", "long"];
+export const REWRITER_TONES = ["as-is", "more-formal", "more-casual"];
+export const REWRITER_LENGTHS = ["as-is", "shorter", "longer"];
+export const TEXT_FORMATS = ["markdown", "plain-text"];
+
+function api<T>(name: string): TaskAPI<T> {
+  const found = (globalThis as any)[name];
+  if (!found) {
+    throw new Error(`This browser does not support the ${name} API.`);
+  }
+  return found;
+}
+
+/**
+ * Create a model for one run, downloading it first if needed.
+ */
+async function createModel<T>(
+  name: string,
+  options: object,
+  { signal, onDownloadProgress, onSessionCreated }: SendOptions
+): Promise<T & { destroy(): void }> {
+  if (signal?.aborted) {
+    throw new ChatInterruptedError("");
+  }
+  const factory = api<T>(name);
+  const availability = await factory.availability(options);
+  if (availability === "unavailable") {
+    throw new Error(`${name} is not available for these options.`);
+  }
+  const started = performance.now();
+  try {
+    const monitor = availability === "downloadable" || availability === "downloading" ? monitorDownload(`Chrome ${name}`, onDownloadProgress) : undefined;
+    const model = await factory.create({ ...options, signal, ...(monitor && { monitor }) });
+    onSessionCreated?.(performance.now() - started);
+    return model;
+  } catch (err) {
+    if (signal?.aborted) {
+      throw new ChatInterruptedError("");
+    }
+    throw err;
+  }
+}
+
+function streamingTask<T>(
+  name: string,
+  options: object,
+  stream: (model: T, input: string, signal?: AbortSignal) => ReadableStream<string>
+): Task {
+  return {
+    label: name,
+    async run(input, onChunk, sendOptions = {}) {
+      const model = await createModel<T>(name, options, sendOptions);
+      try {
+        return await readStream(stream(model, input, sendOptions.signal), onChunk, sendOptions.signal);
+      } finally {
+        model.destroy();
+      }
+    },
+  };
+}
+
+export function summarizeTask(options: { type?: string; length?: string; format?: string }): Task {
+  return streamingTask<SummarizerModel>("Summarizer", options, (model, input, signal) =>
+    model.summarizeStreaming(input, { signal })
+  );
+}
+
+/**
+ * Translate into `targetLanguage`, detecting the source language if it is
+ * not given.
+ */
+export function translateTask(targetLanguage: string, sourceLanguage?: string): Task {
+  return {
+    label: "Translator",
+    async run(input, onChunk, options = {}) {
+      const source = sourceLanguage ?? (await detectLanguages(input, options))[0]?.detectedLanguage;
+      if (!source || source === "und") {
+        throw new Error("Could not detect the source language; give it explicitly, e.g. %%translate en->de.");
+      }
+      const task = streamingTask<TranslatorModel>(
+        "Translator",
+        { sourceLanguage: source, targetLanguage },
+        (model, text, signal) => model.translateStreaming(text, { signal })
+      );
+      return task.run(input, onChunk, options);
+    },
+  };
+}
+
+async function detectLanguages(input: string, options: SendOptions): Promise<{ detectedLanguage: string; confidence: number }[]> {
+  const model = await createModel<LanguageDetectorModel>("LanguageDetector", {}, options);
+  try {
+    return await model.detect(input, { signal: options.signal });
+  } finally {
+    model.destroy();
+  }
+}
+
+function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * List the likeliest languages of the input with their confidence.
+ */
+export function detectTask(): Task {
+  return {
+    label: "LanguageDetector",
+    async run(input, onChunk, options = {}) {
+      const results = await detectLanguages(input, options);
+      const lines = results
+        .filter(r => r.confidence >= 0.01)
+        .slice(0, 5)
+        .map(r => `- **${r.detectedLanguage}** ${languageName(r.detectedLanguage)}: ${Math.round(r.confidence * 100)}%`);
+      const text = lines.join("\n") || "No language detected.";
+      await onChunk?.(text);
+      return text;
+    },
+  };
+}
+
+export function writeTask(options: { tone?: string; length?: string; format?: string }): Task {
+  return streamingTask<WriterModel>("Writer", options, (model, input, signal) => model.writeStreaming(input, { signal }));
+}
+
+export function rewriteTask(options: { tone?: string; length?: string; format?: string }): Task {
+  return streamingTask<RewriterModel>("Rewriter", options, (model, input, signal) =>
+    model.rewriteStreaming(input, { signal })
+  );
+}
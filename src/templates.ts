@@ -0,0 +1,102 @@
+// built-in-chat/src/templates.ts
+// `{{ kind:ref }}` placeholders that pull other content into a prompt:
+//   {{ file:data/notes.md }}  a file from the contents drive
+//   {{ out:3 }}               the reply to the cell with execution count 3
+//   {{ cell:-1 }}             the previous reply (-2 the one before, ...)
+// Anything else in double braces is left as typed.
+
+export interface TemplateSources {
+  readFile(path: string): Promise<string>;
+  /**
+   * Reply of the cell with this execution count, if there was one.
+   */
+  output(executionCount: number): string | undefined;
+  /**
+   * Reply `offset` steps back from the latest (1 is the latest).
+   */
+  previous(offset: number): string | undefined;
+}
+
+const PLACEHOLDER = /\{\{\s*(file|out|cell)\s*:\s*(.*?)\s*\}\}/g;
+
+function integer(ref: string, placeholder: string): number {
+  const n = Number(ref);
+  if (!Number.isInteger(n)) {
+    throw new Error(`${placeholder}: expected an integer, got "${ref}".`);
+  }
+  return n;
+}
+
+async function resolve(kind: string, ref: string, sources: TemplateSources): Promise<string> {
+  const placeholder = `{{ ${kind}:${ref} }}`;
+  switch (kind) {
+    case "file":
+      try {
+        return await sources.readFile(ref);
+      } catch (err: any) {
+        throw new Error(`${placeholder}: ${err?.message ?? err}`);
+      }
+    case "out": {
+      const text = sources.output(integer(ref, placeholder));
+      if (text === undefined) {
+        throw new Error(`${placeholder}: no reply with execution count ${ref}.`);
+      }
+      return text;
+    }
+    default: {
+      const n = integer(ref, placeholder);
+      if (n >= 0) {
+        throw new Error(`${placeholder}: cell references count back from the latest reply, e.g. {{ cell:-1 }}.`);
+      }
+      const text = sources.previous(-n);
+      if (text === undefined) {
+        throw new Error(`${placeholder}: there are fewer than ${-n} earlier replies.`);
+      }
+      return text;
+    }
+  }
+}
+
+export function hasPlaceholders(text: string): boolean {
+  // A non-global copy, so test() leaves no lastIndex behind for matchAll()
+  return new RegExp(PLACEHOLDER.source).test(text);
+}
+
+/**
+ * Replace every placeholder in `text`. Rejects on the first one that
+ * cannot be resolved.
+ */
+export async function expandTemplate(text: string, sources: TemplateSources): Promise<string> {
+  const matches = [...text.matchAll(PLACEHOLDER)];
+  const values = await Promise.all(matches.map(([, kind, ref]) => resolve(kind, ref, sources)));
+
+  let result = "";
+  let last = 0;
+  matches.forEach((match, i) => {
+    result += text.slice(last, match.index) + values[i];
+    last = match.index! + match[0].length;
+  });
+  return result + text.slice(last);
+}
+
+/**
+ * Evaluate the `user_expressions` of an execute request. Each expression is
+ * a template; a bare reference like "out:3" is read as "{{ out:3 }}".
+ */
+export async function evaluateUserExpressions(
+  expressions: Record<string, string>,
+  sources: TemplateSources
+): Promise<Record<string, any>> {
+  const results: Record<string, any> = {};
+  for (const [name, expression] of Object.entries(expressions ?? {})) {
+    const wrapped = `{{ ${expression} }}`;
+    const template = !hasPlaceholders(expression) && hasPlaceholders(wrapped) ? wrapped : expression;
+    try {
+      const value = await expandTemplate(template, sources);
+      results[name] = { status: "ok", data: { "text/plain": value }, metadata: {} };
+    } catch (err: any) {
+      results[name] = { status: "error", ename: "Error", evalue: err?.message ?? String(err), traceback: [] };
+    }
+  }
+  return results;
+}
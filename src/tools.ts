@@ -0,0 +1,199 @@
+// built-in-chat/src/tools.ts
+// Notebook-defined JavaScript tools and the loop that lets the model call
+// them. The model is told about the tools in the prompt and asks for a call
+// with a fenced block:
+//
+//   ```tool_call
+//   {"name": "add", "arguments": {"a": 1, "b": 2}}
+//   ```
+//
+// The kernel runs the tool and sends the result back as the next prompt,
+// until the model answers without a tool call.
+
+import { ChatSession, ChunkHandler, SendOptions } from "./chat.js";
+import { ToolError } from "./errors.js";
+import { JSONSchema, validate } from "./schema.js";
+
+// Tool calls allowed in one cell before the kernel gives up
+export const MAX_TOOL_CALLS = 8;
+
+export interface Tool {
+  name: string;
+  description: string;
+  /**
+   * JSON Schema of the arguments object.
+   */
+  parameters: JSONSchema;
+  /**
+   * Ask the user before each call, for tools with side effects.
+   */
+  confirm?: boolean;
+  run(args: Record<string, unknown>): Promise<unknown>;
+}
+
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolLoopHooks {
+  /**
+   * Called when the model asks for a tool, before it runs. The reply
+   * streamed so far was the request, not an answer.
+   */
+  onCall?(call: ToolCall): void | Promise<void>;
+  onResult?(call: ToolCall, result: string): void;
+  /**
+   * Asked before running a tool marked `confirm`; resolving false skips
+   * the call and tells the model it was declined.
+   */
+  confirm?(call: ToolCall): Promise<boolean>;
+}
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+/**
+ * Build a tool from a `%%tool` cell: the function body sees the arguments
+ * as `args` and may be async.
+ */
+export function defineTool(
+  name: string,
+  description: string,
+  parameters: JSONSchema,
+  body: string,
+  confirm = false
+): Tool {
+  let fn: (args: Record<string, unknown>) => Promise<unknown>;
+  try {
+    fn = new AsyncFunction("args", body);
+  } catch (err: any) {
+    throw new Error(`Tool "${name}" does not compile: ${err?.message ?? err}`);
+  }
+  return { name, description, parameters, confirm, run: args => fn(args) };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  get(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
+  register(tool: Tool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * A copy of this registry with `tool` added, e.g. for a single cell.
+   */
+  with(tool: Tool): ToolRegistry {
+    const copy = new ToolRegistry();
+    copy.tools = new Map(this.tools);
+    copy.register(tool);
+    return copy;
+  }
+
+  clear(): void {
+    this.tools.clear();
+  }
+
+  list(): Tool[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Run a call. Mistakes the model can fix (unknown tool, bad arguments)
+   * come back as the result; exceptions from the tool itself reject with a
+   * ToolError.
+   */
+  async call(call: ToolCall): Promise<string> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return `Error: there is no tool named "${call.name}". Available: ${[...this.tools.keys()].join(", ")}.`;
+    }
+    const issue = validate(call.arguments, tool.parameters);
+    if (issue) {
+      return `Error: invalid arguments, ${issue.path} ${issue.message}.`;
+    }
+    let result: unknown;
+    try {
+      result = await tool.run(call.arguments);
+    } catch (err) {
+      throw new ToolError(call.name, err);
+    }
+    return typeof result === "string" ? result : JSON.stringify(result ?? null);
+  }
+
+  /**
+   * Tool descriptions and calling conventions for the model.
+   */
+  instructions(): string {
+    const tools = this.list().map(t =>
+      JSON.stringify({ name: t.name, description: t.description, parameters: t.parameters })
+    );
+    return [
+      "You can use these tools:",
+      ...tools,
+      "To use one, reply with only a tool_call block, for example:",
+      '```tool_call\n{"name": "<tool>", "arguments": {...}}\n```',
+      "You will get the result in a tool_result block. Once you can answer, reply normally without a tool_call.",
+    ].join("\n");
+  }
+}
+
+/**
+ * Find a tool call in a reply, if the model asked for one.
+ */
+export function parseToolCall(reply: string): ToolCall | null {
+  const fenced = /```tool_call\s*\n([\s\S]*?)\n?```/.exec(reply);
+  const source = fenced ? fenced[1] : reply.trim();
+  if (!fenced && !source.startsWith("{")) {
+    return null;
+  }
+  try {
+    const call = JSON.parse(source);
+    if (typeof call?.name !== "string") {
+      return null;
+    }
+    const args = call.arguments ?? {};
+    return { name: call.name, arguments: typeof args === "string" ? JSON.parse(args) : args };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Send `prompt` with the tools described, running requested calls until the
+ * model gives a final answer, which is returned.
+ */
+export async function runToolLoop(
+  chat: ChatSession,
+  prompt: string,
+  tools: ToolRegistry,
+  onChunk?: ChunkHandler,
+  options: SendOptions = {},
+  hooks: ToolLoopHooks = {}
+): Promise<string> {
+  const resultOptions = { ...options, attachments: undefined };
+  let input = `${tools.instructions()}\n\n${prompt}`;
+  for (let calls = 0; ; calls++) {
+    // Tool results continue the turn that carried the attachments
+    const reply = await chat.send(input, onChunk, calls ? resultOptions : options);
+    const call = parseToolCall(reply);
+    if (!call) {
+      return reply;
+    }
+    if (calls === MAX_TOOL_CALLS) {
+      throw new Error(`Stopped after ${MAX_TOOL_CALLS} tool calls without a final answer.`);
+    }
+    await hooks.onCall?.(call);
+    const declined = tools.get(call.name)?.confirm && hooks.confirm && !(await hooks.confirm(call));
+    const result = declined ? "Error: the user declined this call. Do not retry it." : await tools.call(call);
+    hooks.onResult?.(call, result);
+    input = `\`\`\`tool_result\n${JSON.stringify({ name: call.name, result })}\n\`\`\``;
+  }
+}
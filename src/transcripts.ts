@@ -0,0 +1,288 @@
+// built-in-chat/src/transcripts.ts
+// Conversations as files: `%export` writes one as Markdown, JSON Lines or a
+// notebook, and `%import` reads any of the three back so the turns can seed
+// a new session as its initialPrompts.
+
+import { Availability, PromptMessage } from "./backends.js";
+
+export type TranscriptFormat = "md" | "jsonl" | "ipynb";
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ["md", "jsonl", "ipynb"];
+
+export interface TranscriptHeader {
+  conversation: string;
+  backend: string;
+  availability: Availability;
+  systemPrompt: string;
+  /**
+   * Condensed form of turns dropped by the "summarize" overflow policy.
+   */
+  summary?: string;
+  temperature?: number;
+  topK?: number;
+  exported: string;
+}
+
+export interface Transcript {
+  header: TranscriptHeader;
+  /**
+   * Alternating user and assistant messages.
+   */
+  turns: PromptMessage[];
+}
+
+/**
+ * What an imported file gave; anything but the turns may be missing.
+ */
+export interface ImportedTranscript {
+  header: Partial<TranscriptHeader>;
+  turns: PromptMessage[];
+}
+
+// Key of the header in notebook metadata and JSON Lines records
+const METADATA_KEY = "built-in-chat";
+
+const ROLE_HEADINGS: Record<string, PromptMessage["role"] | "summary"> = {
+  System: "system",
+  Summary: "summary",
+  User: "user",
+  Assistant: "assistant",
+};
+
+// Each Markdown section starts with a comment naming its role, so headings
+// inside a reply are not taken for section breaks. Body lines that look like
+// a marker are escaped with a backslash on export.
+const SECTION_MARKER = /^<!-- built-in-chat:(System|Summary|User|Assistant) -->[ \t]*$/m;
+const ESCAPED_MARKER = /^(\\*)(<!-- built-in-chat:)/gm;
+
+// Cell magics whose body is the prompt; other cell magics send none
+const PROMPT_CELL_MAGICS = ["chat", "json"];
+
+export function formatTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  switch (format) {
+    case "md":
+      return toMarkdown(transcript);
+    case "jsonl":
+      return toJSONLines(transcript);
+    case "ipynb":
+      return JSON.stringify(toNotebook(transcript), null, 1);
+  }
+}
+
+/**
+ * Read a transcript written by `formatTranscript`, picking the format from
+ * the file name.
+ */
+export function parseTranscript(path: string, text: string): ImportedTranscript {
+  const name = path.toLowerCase();
+  const transcript =
+    name.endsWith(".ipynb")
+      ? fromNotebook(JSON.parse(text))
+      : name.endsWith(".md") || name.endsWith(".markdown")
+        ? fromMarkdown(text)
+        : fromJSONLines(text);
+  const { turns } = transcript;
+  if (turns.some((m, i) => m.role !== (i % 2 ? "assistant" : "user")) || turns.length % 2) {
+    throw new Error(`${path} does not hold alternating user and assistant turns.`);
+  }
+  return transcript;
+}
+
+function toMarkdown({ header, turns }: Transcript): string {
+  const details = [
+    `- Backend: ${header.backend}`,
+    `- Availability: ${header.availability}`,
+    header.temperature !== undefined ? `- Temperature: ${header.temperature}` : "",
+    header.topK !== undefined ? `- Top-K: ${header.topK}` : "",
+    `- Exported: ${header.exported}`,
+  ].filter(Boolean);
+  const sections = [
+    header.systemPrompt ? ["System", header.systemPrompt] : null,
+    header.summary ? ["Summary", header.summary] : null,
+    ...turns.map(m => [m.role === "user" ? "User" : "Assistant", m.content]),
+  ].filter((s): s is string[] => s !== null);
+  return [
+    `# Conversation: ${header.conversation}`,
+    "",
+    ...details,
+    ...sections.flatMap(([heading, content]) => [
+      "",
+      `<!-- built-in-chat:${heading} -->`,
+      `## ${heading}`,
+      "",
+      content.trim().replace(ESCAPED_MARKER, "\\$1$2"),
+    ]),
+    "",
+  ].join("\n");
+}
+
+function fromMarkdown(text: string): ImportedTranscript {
+  const header: Partial<TranscriptHeader> = {};
+  const turns: PromptMessage[] = [];
+  const title = /^# Conversation: (.+)$/m.exec(text);
+  if (title) {
+    header.conversation = title[1].trim();
+  }
+  const temperature = /^- Temperature: (.+)$/m.exec(text);
+  if (temperature) {
+    header.temperature = Number(temperature[1]);
+  }
+  const topK = /^- Top-K: (.+)$/m.exec(text);
+  if (topK) {
+    header.topK = Number(topK[1]);
+  }
+
+  // Split on the section markers; anything before the first one is the
+  // preamble. Files without markers split on the role headings instead.
+  const marked = SECTION_MARKER.test(text);
+  const parts = marked
+    ? text.split(new RegExp(SECTION_MARKER.source, "m"))
+    : text.split(/^## (System|Summary|User|Assistant)[ \t]*$/m);
+  for (let i = 1; i < parts.length; i += 2) {
+    const role = ROLE_HEADINGS[parts[i]];
+    const content = marked
+      ? parts[i + 1]
+          .replace(/^\s*## \w+[ \t]*\n/, "")
+          .trim()
+          .replace(ESCAPED_MARKER, (_, slashes: string, marker: string) => slashes.slice(1) + marker)
+      : parts[i + 1].trim();
+    if (role === "system") {
+      header.systemPrompt = content;
+    } else if (role === "summary") {
+      header.summary = content;
+    } else {
+      turns.push({ role, content });
+    }
+  }
+  return { header, turns };
+}
+
+function toJSONLines({ header, turns }: Transcript): string {
+  const records = [{ [METADATA_KEY]: header }, ...turns];
+  return records.map(r => JSON.stringify(r)).join("\n") + "\n";
+}
+
+function fromJSONLines(text: string): ImportedTranscript {
+  let header: Partial<TranscriptHeader> = {};
+  const turns: PromptMessage[] = [];
+  text
+    .split("\n")
+    .filter(line => line.trim())
+    .forEach((line, i) => {
+      let record: any;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${i + 1} is not JSON.`);
+      }
+      if (record[METADATA_KEY]) {
+        header = record[METADATA_KEY];
+      } else if (record.role === "system") {
+        header.systemPrompt = String(record.content ?? "");
+      } else if (record.role === "user" || record.role === "assistant") {
+        turns.push({ role: record.role, content: String(record.content ?? "") });
+      }
+    });
+  return { header, turns };
+}
+
+function sourceLines(text: string): string[] {
+  return text.split(/(?<=\n)/);
+}
+
+// Cells the kernel itself can run: %%system, then one cell per prompt with
+// the reply as its output.
+function toNotebook({ header, turns }: Transcript): object {
+  const cells: object[] = [
+    {
+      cell_type: "markdown",
+      metadata: {},
+      source: sourceLines(`# Conversation: ${header.conversation}\n\nExported from ${header.backend} on ${header.exported}.`),
+    },
+  ];
+  if (header.systemPrompt) {
+    cells.push({
+      cell_type: "code",
+      execution_count: null,
+      metadata: {},
+      outputs: [],
+      source: sourceLines(`%%system\n${header.systemPrompt}`),
+    });
+  }
+  for (let i = 0; i + 1 < turns.length; i += 2) {
+    const count = i / 2 + 1;
+    const reply = turns[i + 1].content;
+    cells.push({
+      cell_type: "code",
+      execution_count: count,
+      metadata: {},
+      outputs: [
+        {
+          output_type: "execute_result",
+          execution_count: count,
+          data: { "text/markdown": sourceLines(reply), "text/plain": sourceLines(reply) },
+          metadata: {},
+        },
+      ],
+      source: sourceLines(turns[i].content),
+    });
+  }
+  return {
+    cells,
+    metadata: {
+      language_info: { name: "markdown", mimetype: "text/markdown", file_extension: ".md" },
+      [METADATA_KEY]: header,
+    },
+    nbformat: 4,
+    nbformat_minor: 5,
+  };
+}
+
+function joinSource(source: unknown): string {
+  return Array.isArray(source) ? source.join("") : String(source ?? "");
+}
+
+// The prompt a cell sent: its text after any leading line magics, or the
+// body of a `%%chat` or `%%json` cell. Empty for cells of magics alone.
+function cellPrompt(source: string): string {
+  const lines = source.split("\n");
+  let i = 0;
+  for (; i < lines.length; i++) {
+    const magic = /^(%%?)([A-Za-z_][\w-]*)(?:\s|$)/.exec(lines[i].trim());
+    if (!magic) break;
+    if (magic[1] === "%%") {
+      return PROMPT_CELL_MAGICS.includes(magic[2]) ? lines.slice(i + 1).join("\n").trim() : "";
+    }
+  }
+  return lines.slice(i).join("\n").trim();
+}
+
+function fromNotebook(notebook: any): ImportedTranscript {
+  const header: Partial<TranscriptHeader> = { ...notebook?.metadata?.[METADATA_KEY] };
+  const turns: PromptMessage[] = [];
+  for (const cell of notebook?.cells ?? []) {
+    if (cell.cell_type !== "code") continue;
+    const source = joinSource(cell.source).trim();
+    const system = /^%%system[^\n]*\n?([\s\S]*)$/.exec(source);
+    if (system) {
+      header.systemPrompt = system[1].trim();
+      continue;
+    }
+    const prompt = cellPrompt(source);
+    if (!prompt) continue;
+    // The reply is the cell's result. The live display the kernel streams
+    // into is blanked once the result is out, so a display, or failing that
+    // streamed text, only counts when there is no result.
+    const outputs: any[] = cell.outputs ?? [];
+    const result =
+      outputs.find(o => o.output_type === "execute_result") ??
+      outputs.find(o => o.output_type === "display_data" && joinSource(o.data?.["text/markdown"] ?? o.data?.["text/plain"]).trim());
+    const reply = result
+      ? joinSource(result.data?.["text/markdown"] ?? result.data?.["text/plain"])
+      : outputs.filter(o => o.output_type === "stream").map(o => joinSource(o.text)).join("");
+    if (reply) {
+      turns.push({ role: "user", content: prompt }, { role: "assistant", content: reply });
+    }
+  }
+  return { header, turns };
+}
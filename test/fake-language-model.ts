@@ -0,0 +1,201 @@
+// built-in-chat/test/fake-language-model.ts
+// A scriptable stand-in for Chrome's `LanguageModel` global. Tests queue the
+// replies they want, chunk by chunk, and can make availability, downloads
+// and streams behave like the real API does on a bad day.
+
+import { Availability, PromptInput, PromptMessage, promptText } from "../src/backends.js";
+
+export interface ScriptedReply {
+  chunks: string[];
+  /**
+   * Raised after the chunks have been sent, as a mid-stream failure.
+   */
+  error?: Error;
+  /**
+   * Pause before each chunk, in milliseconds.
+   */
+  delayMs?: number;
+}
+
+export interface FakeScript {
+  availability?: Availability;
+  /**
+   * `loaded` values of the downloadprogress events create() fires when the
+   * model is "downloadable"; the model is available afterwards.
+   */
+  downloadProgress?: number[];
+  /**
+   * Context size of each session, in words. Unset means usage is not reported.
+   */
+  inputQuota?: number;
+  defaultTemperature?: number;
+  defaultTopK?: number;
+  /**
+   * Input types besides text the model takes; unset means all of them.
+   */
+  inputTypes?: string[];
+}
+
+interface CreateOptions {
+  initialPrompts?: PromptMessage[];
+  temperature?: number;
+  topK?: number;
+  signal?: AbortSignal;
+  monitor?: (monitor: EventTarget) => void;
+  [key: string]: unknown;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export class FakeSession {
+  inputUsage: number | undefined;
+  destroyed = false;
+
+  constructor(private model: FakeLanguageModel, readonly options: CreateOptions) {
+    if (model.script.inputQuota !== undefined) {
+      this.inputUsage = (options.initialPrompts ?? []).reduce((n, m) => n + countWords(m.content), 0);
+    }
+  }
+
+  get inputQuota(): number | undefined {
+    return this.model.script.inputQuota;
+  }
+
+  promptStreaming(prompt: PromptInput, options: { signal?: AbortSignal } = {}): ReadableStream<string> {
+    const { signal } = options;
+    const input = promptText(prompt);
+    this.model.prompts.push(input);
+    this.model.inputs.push(prompt);
+    const reply = this.model.nextReply(input);
+    let i = 0;
+    return new ReadableStream<string>({
+      pull: async controller => {
+        if (reply.delayMs) {
+          await sleep(reply.delayMs);
+        }
+        if (signal?.aborted) {
+          controller.error(new DOMException("The operation was aborted.", "AbortError"));
+          return;
+        }
+        if (i < reply.chunks.length) {
+          controller.enqueue(reply.chunks[i++]);
+          return;
+        }
+        if (reply.error) {
+          controller.error(reply.error);
+          return;
+        }
+        if (this.inputUsage !== undefined) {
+          this.inputUsage += countWords(input) + countWords(reply.chunks.join(""));
+        }
+        controller.close();
+      },
+    });
+  }
+
+  async measureInputUsage(input: PromptInput): Promise<number> {
+    return countWords(promptText(input));
+  }
+
+  async clone(): Promise<FakeSession> {
+    const copy = new FakeSession(this.model, this.options);
+    copy.inputUsage = this.inputUsage;
+    this.model.sessions.push(copy);
+    return copy;
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+  }
+}
+
+export class FakeLanguageModel {
+  /**
+   * Every prompt sent to any session, in order.
+   */
+  readonly prompts: string[] = [];
+  /**
+   * The same prompts as sent, images and audio included.
+   */
+  readonly inputs: PromptInput[] = [];
+  readonly sessions: FakeSession[] = [];
+  private replies: (ScriptedReply | ((input: string) => ScriptedReply))[] = [];
+
+  constructor(public script: FakeScript = {}) {}
+
+  /**
+   * Make this the global `LanguageModel` the Chrome backend talks to.
+   */
+  install(): this {
+    (globalThis as any).LanguageModel = this;
+    return this;
+  }
+
+  uninstall(): void {
+    if ((globalThis as any).LanguageModel === this) {
+      delete (globalThis as any).LanguageModel;
+    }
+  }
+
+  /**
+   * Queue replies for the next prompts. Strings stream as one chunk per word.
+   */
+  reply(...replies: (string | ScriptedReply | ((input: string) => ScriptedReply))[]): this {
+    for (const reply of replies) {
+      this.replies.push(typeof reply === "string" ? { chunks: reply.split(/(?<= )/) } : reply);
+    }
+    return this;
+  }
+
+  nextReply(input: string): ScriptedReply {
+    const next = this.replies.shift();
+    if (!next) {
+      throw new Error(`FakeLanguageModel: no reply scripted for prompt ${JSON.stringify(input)}`);
+    }
+    return typeof next === "function" ? next(input) : next;
+  }
+
+  async availability(options: { expectedInputs?: { type: string }[] } = {}): Promise<Availability> {
+    const { inputTypes } = this.script;
+    const types = (options.expectedInputs ?? []).map(i => i.type).filter(t => t !== "text");
+    if (inputTypes && types.some(t => !inputTypes.includes(t))) {
+      return "unavailable";
+    }
+    return this.script.availability ?? "available";
+  }
+
+  async params() {
+    return {
+      defaultTemperature: this.script.defaultTemperature ?? 1,
+      defaultTopK: this.script.defaultTopK ?? 3,
+      maxTemperature: 2,
+      maxTopK: 128,
+    };
+  }
+
+  async create(options: CreateOptions = {}): Promise<FakeSession> {
+    const availability = await this.availability(options as { expectedInputs?: { type: string }[] });
+    if (availability === "unavailable") {
+      throw new DOMException("The model is not available.", "NotSupportedError");
+    }
+    if (availability === "downloadable" || availability === "downloading") {
+      const monitor = new EventTarget();
+      options.monitor?.(monitor);
+      for (const loaded of this.script.downloadProgress ?? [1]) {
+        if (options.signal?.aborted) {
+          throw new DOMException("The operation was aborted.", "AbortError");
+        }
+        monitor.dispatchEvent(Object.assign(new Event("downloadprogress"), { loaded }));
+        await sleep(0);
+      }
+      this.script.availability = "available";
+    }
+    const session = new FakeSession(this, options);
+    this.sessions.push(session);
+    return session;
+  }
+}
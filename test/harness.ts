@@ -0,0 +1,138 @@
+// built-in-chat/test/harness.ts
+// Drives a BuiltInChatKernel the way JupyterLite does, through
+// handleMessage(), and records every message it sends back.
+
+import { BaseKernel } from "@jupyterlite/kernel";
+
+import { KERNEL_BUILD } from "../src/build-info.js";
+import { BuiltInChatKernel, KernelOptions, createKernelClass } from "../src/kernel.js";
+
+const BuiltInChatKernelClass = createKernelClass(BaseKernel, KERNEL_BUILD);
+
+export interface Message {
+  header: { msg_id: string; msg_type: string; session: string; username: string; date: string; version: string };
+  parent_header: any;
+  metadata: Record<string, unknown>;
+  content: any;
+  channel: string;
+  buffers?: unknown[];
+}
+
+export interface Exchange {
+  /**
+   * The shell (or control) reply, if the request gets one.
+   */
+  reply?: Message;
+  /**
+   * Everything sent in response to the request, in order.
+   */
+  messages: Message[];
+}
+
+let counter = 0;
+let kernels = 0;
+
+export function makeMessage(msgType: string, content: any, channel = "shell"): Message {
+  counter += 1;
+  return {
+    header: {
+      msg_id: `test-${counter}`,
+      msg_type: msgType,
+      session: "test-session",
+      username: "test",
+      date: new Date().toISOString(),
+      version: "5.3",
+    },
+    parent_header: {},
+    metadata: {},
+    content,
+    channel,
+    buffers: [],
+  };
+}
+
+export class KernelHarness {
+  readonly kernel: BuiltInChatKernel;
+  /**
+   * Every message the kernel has sent.
+   */
+  readonly sent: Message[] = [];
+  private answers: string[] = [];
+
+  constructor(options: Partial<KernelOptions> = {}) {
+    kernels += 1;
+    this.kernel = new BuiltInChatKernelClass({
+      // History is kept per kernel id, so each harness starts from none
+      id: `test-kernel-${kernels}`,
+      name: "built-in-chat",
+      location: "",
+      sendMessage: (msg: any) => this.receive(msg),
+      ...options,
+    } as KernelOptions);
+  }
+
+  /**
+   * Queue answers for the kernel's input requests.
+   */
+  answer(...values: string[]): this {
+    this.answers.push(...values);
+    return this;
+  }
+
+  async request(msgType: string, content: any = {}, channel = "shell"): Promise<Exchange> {
+    const msg = makeMessage(msgType, content, channel);
+    const start = this.sent.length;
+    await this.kernel.handleMessage(msg as any);
+    const messages = this.sent.slice(start).filter(m => m.parent_header?.msg_id === msg.header.msg_id);
+    const reply = messages.find(m => m.channel === "shell" || m.channel === "control");
+    return { reply, messages };
+  }
+
+  execute(code: string, content: any = {}): Promise<Exchange> {
+    return this.request("execute_request", {
+      code,
+      silent: false,
+      store_history: true,
+      user_expressions: {},
+      allow_stdin: true,
+      stop_on_error: true,
+      ...content,
+    });
+  }
+
+  dispose(): void {
+    this.kernel.dispose();
+  }
+
+  private receive(msg: Message): void {
+    this.sent.push(msg);
+    if (msg.header.msg_type === "input_request") {
+      const value = this.answers.shift();
+      if (value !== undefined) {
+        // Reply from a later task, as the frontend would
+        setTimeout(() => this.kernel.handleMessage(makeMessage("input_reply", { status: "ok", value }, "stdin") as any));
+      }
+    }
+  }
+}
+
+export function ofType(messages: Message[], msgType: string): Message[] {
+  return messages.filter(m => m.header.msg_type === msgType);
+}
+
+/**
+ * Text written to stdout/stderr, joined.
+ */
+export function streamText(messages: Message[]): string {
+  return ofType(messages, "stream")
+    .map(m => m.content.text)
+    .join("");
+}
+
+/**
+ * The Markdown of the last display or update, i.e. what the cell shows.
+ */
+export function lastDisplayed(messages: Message[]): string | undefined {
+  const displays = messages.filter(m => m.header.msg_type === "display_data" || m.header.msg_type === "update_display_data");
+  return displays.at(-1)?.content.data["text/markdown"];
+}
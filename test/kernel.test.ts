@@ -0,0 +1,451 @@
+// built-in-chat/test/kernel.test.ts
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import { PromptInput } from "../src/backends.js";
+import { KERNEL_BUILD } from "../src/build-info.js";
+import { FakeLanguageModel } from "./fake-language-model.js";
+import { KernelHarness, lastDisplayed, ofType, streamText } from "./harness.js";
+
+let model: FakeLanguageModel;
+let harness: KernelHarness;
+
+beforeEach(() => {
+  model = new FakeLanguageModel().install();
+  harness = new KernelHarness();
+});
+
+afterEach(() => {
+  harness.dispose();
+  model.uninstall();
+});
+
+describe("kernel_info_request", () => {
+  it("describes a Markdown kernel", async () => {
+    const { reply, messages } = await harness.request("kernel_info_request");
+    assert.equal(reply?.header.msg_type, "kernel_info_reply");
+    assert.equal(reply?.content.status, "ok");
+    assert.equal(reply?.content.implementation, "built-in-chat-kernel");
+    assert.equal(reply?.content.implementation_version, KERNEL_BUILD.version);
+    assert.equal(reply?.content.protocol_version, "5.3");
+    assert.equal(reply?.content.supported_features, undefined);
+    assert.match(reply?.content.banner, new RegExp(`${KERNEL_BUILD.version} \\(${KERNEL_BUILD.capabilities.join(", ")}\\)`));
+    assert.equal(reply?.content.language_info.name, "markdown");
+    assert.deepEqual(
+      ofType(messages, "status").map(m => m.content.execution_state),
+      ["busy", "idle"]
+    );
+  });
+});
+
+describe("execute_request", () => {
+  it("streams the reply into a display and ends with an execute_result", async () => {
+    model.reply({ chunks: ["Hello", ", ", "world."] });
+    const { reply, messages } = await harness.execute("Say hello");
+
+    assert.equal(reply?.content.status, "ok");
+    assert.equal(reply?.content.execution_count, 1);
+    assert.deepEqual(reply?.content.payload, []);
+    assert.deepEqual(model.prompts, ["Say hello"]);
+
+    const displays = ofType(messages, "display_data");
+    assert.equal(displays.length, 1);
+    assert.ok(displays[0].content.transient.display_id);
+    // The live display is blanked once the final result is out
+    assert.equal(ofType(messages, "update_display_data").at(-1)?.content.data["text/plain"], "");
+
+    const [result] = ofType(messages, "execute_result");
+    assert.equal(result.content.data["text/markdown"], "Hello, world.");
+    assert.equal(result.content.execution_count, 1);
+    assert.equal(result.content.metadata.built_in_chat.conversation, "default");
+  });
+
+  it("keeps the conversation in one session across cells", async () => {
+    model.reply("First answer.", "Second answer.");
+    await harness.execute("One");
+    const { reply } = await harness.execute("Two");
+
+    assert.equal(reply?.content.execution_count, 2);
+    assert.equal(model.sessions.length, 1);
+    assert.deepEqual(model.prompts, ["One", "Two"]);
+  });
+
+  it("reports a mid-stream failure as an error reply and keeps the partial text", async () => {
+    model.reply({ chunks: ["Partial ", "answer"], error: new Error("The model crashed.") });
+    const { reply, messages } = await harness.execute("Go");
+
+    assert.equal(reply?.content.status, "error");
+    assert.equal(reply?.content.ename, "Error");
+    assert.equal(reply?.content.evalue, "The model crashed.");
+    const [error] = ofType(messages, "error");
+    assert.equal(error.content.evalue, "The model crashed.");
+    assert.equal(ofType(messages, "execute_result").length, 0);
+    assert.equal(lastDisplayed(messages), "Partial answer");
+  });
+
+  it("refuses to prompt when the model is unavailable", async () => {
+    model.script.availability = "unavailable";
+    const { reply } = await harness.execute("Hello?");
+
+    assert.equal(reply?.content.status, "error");
+    assert.match(reply?.content.evalue, /not available/);
+    assert.deepEqual(model.prompts, []);
+  });
+
+  it("shows download progress before the first reply", async () => {
+    model.script.availability = "downloadable";
+    model.script.downloadProgress = [0.25, 0.5, 1];
+    model.reply("Ready.");
+    const { reply, messages } = await harness.execute("Hi");
+
+    assert.equal(reply?.content.status, "ok");
+    const progress = messages
+      .filter(m => m.header.msg_type.endsWith("display_data"))
+      .map(m => m.content.data["text/plain"])
+      .filter(text => /download/i.test(text));
+    assert.deepEqual(progress, ["Downloading model: 25%", "Downloading model: 50%", "Model downloaded."]);
+    assert.equal(ofType(messages, "execute_result")[0].content.data["text/markdown"], "Ready.");
+  });
+
+  it("stops on interrupt with a KeyboardInterrupt and keeps what streamed", async () => {
+    model.reply({ chunks: ["one ", "two ", "three ", "four "], delayMs: 20 });
+    const pending = harness.execute("Count");
+    await new Promise(resolve => setTimeout(resolve, 50));
+    harness.kernel.interrupt();
+    const { reply, messages } = await pending;
+
+    assert.equal(reply?.content.status, "error");
+    assert.equal(reply?.content.ename, "KeyboardInterrupt");
+    const shown = lastDisplayed(messages) ?? "";
+    assert.ok(shown.startsWith("one "), shown);
+    assert.ok(!shown.includes("four"), shown);
+  });
+
+  it("runs line magics and sends the rest of the cell", async () => {
+    model.reply("Cool.");
+    const { messages } = await harness.execute("%temperature 0.5\nTell me something");
+
+    assert.match(streamText(messages), /temperature = 0\.5/);
+    assert.deepEqual(model.prompts, ["Tell me something"]);
+    assert.equal(model.sessions[0].options.temperature, 0.5);
+  });
+
+  it("rejects an unknown magic without prompting", async () => {
+    const { reply } = await harness.execute("%nonsense");
+
+    assert.equal(reply?.content.status, "error");
+    assert.match(reply?.content.evalue, /Unknown magic: %nonsense/);
+    assert.deepEqual(model.prompts, []);
+  });
+
+  it("sends a line escaped as \\% as prompt text", async () => {
+    model.reply("A string.", "An integer.");
+    await harness.execute("\\%s is a C format specifier; explain");
+    await harness.execute("%temperature 0.5\n\\%d too");
+    assert.deepEqual(model.prompts, ["%s is a C format specifier; explain", "%d too"]);
+  });
+
+  it("returns a validated JSON value for %%json cells", async () => {
+    model.reply('```json\n{"name": "Ada"}\n```');
+    const { reply, messages } = await harness.execute(
+      '%%json {"type": "object", "properties": {"name": {"type": "string"}}, "required": ["name"]}\nWho wrote the first program?'
+    );
+
+    assert.equal(reply?.content.status, "ok");
+    assert.deepEqual(ofType(messages, "execute_result")[0].content.data["application/json"], { name: "Ada" });
+  });
+
+  it("asks through stdin before letting a long reply continue", async () => {
+    model.reply({ chunks: ["a".repeat(10), "b".repeat(10), "c".repeat(10)] });
+    harness.answer("n");
+    const { reply, messages } = await harness.execute("%confirm 15\nWrite a lot");
+
+    assert.equal(reply?.content.ename, "KeyboardInterrupt");
+    assert.match(ofType(harness.sent, "input_request")[0].content.prompt, /over 15 characters/);
+    assert.equal(lastDisplayed(messages), "a".repeat(10) + "b".repeat(10));
+  });
+
+  it("attaches the turn's timings to the reply metadata and %stats", async () => {
+    model.reply({ chunks: ["one ", "two ", "three"], delayMs: 5 });
+    const { reply } = await harness.execute("Count to three");
+
+    const { metrics } = reply?.content.metadata.built_in_chat;
+    assert.equal(metrics.chunks, 3);
+    assert.equal(metrics.characters, "one two three".length);
+    assert.ok(metrics.session_ms >= 0);
+    assert.ok(metrics.first_chunk_ms >= metrics.session_ms);
+    assert.ok(metrics.total_ms >= metrics.first_chunk_ms);
+    assert.ok(metrics.chars_per_second > 0);
+
+    const { messages } = await harness.execute("%stats");
+    assert.match(streamText(messages), /^1 turn on Chrome built-in AI, 13 characters of replies/);
+    assert.match(streamText(messages), /First chunk \(ms\) +1/);
+  });
+
+  it("joins code blocks into one set_next_input payload with %autoinsert", async () => {
+    model.reply("Try:\n```py\nprint(1)\n```\nthen\n```sh\nls\n```\nand\n```python\nprint(2)\n```\n");
+    await harness.execute("%autoinsert python");
+    const { reply } = await harness.execute("Print one and two");
+
+    // JupyterLab only acts on the first set_next_input payload
+    assert.deepEqual(reply?.content.payload, [
+      { source: "set_next_input", text: "print(1)\n\nprint(2)", replace: false, language: "python" },
+    ]);
+  });
+});
+
+describe("attachments", () => {
+  const notebook = {
+    cells: [
+      { cell_type: "code", execution_count: 3, source: "plot()", outputs: [{ output_type: "display_data", data: { "image/png": "iVBORw0KGgo=\n" } }] },
+    ],
+  };
+  const drive = {
+    read: async (path: string) => {
+      assert.equal(path, "analysis.ipynb");
+      return JSON.stringify(notebook);
+    },
+    readBinary: async (path: string) => new Blob([`bytes of ${path}`]),
+    list: async () => [],
+    write: async () => {},
+  };
+  const withDrive = (options = {}) => new KernelHarness({ drive, resolvePath: () => "analysis.ipynb", ...options });
+
+  it("recreates the session for images and sends them with the prompt", async () => {
+    harness.dispose();
+    harness = withDrive();
+    model.reply("Hello.", "A rising line.", "Yes.");
+    await harness.execute("Hi");
+    const { reply } = await harness.execute("%%chat --image figures/plot.png --image=out:3\nWhat do these show?");
+    assert.equal(reply?.content.status, "ok");
+
+    assert.equal(model.sessions.length, 2);
+    assert.equal(model.sessions[0].options.expectedInputs, undefined);
+    assert.deepEqual(model.sessions[1].options.expectedInputs, [{ type: "text" }, { type: "image" }]);
+    // The new session is seeded with the text of the first turn
+    assert.deepEqual(model.sessions[1].options.initialPrompts?.map(m => m.content), ["Hi", "Hello."]);
+
+    const [message] = model.inputs[1] as Exclude<PromptInput, string>;
+    assert.deepEqual(message.content.map(c => c.type), ["text", "image", "image"]);
+    assert.equal(message.content[0].value, "What do these show?");
+    assert.equal((message.content[1].value as Blob).type, "image/png");
+    assert.equal(await (message.content[1].value as Blob).text(), "bytes of figures/plot.png");
+    assert.equal((message.content[2].value as Blob).size, 8);
+
+    // Later text prompts keep using the image-capable session
+    await harness.execute("Is it linear?");
+    assert.equal(model.sessions.length, 2);
+    assert.equal(model.prompts[2], "Is it linear?");
+  });
+
+  it("explains when the browser cannot take a modality", async () => {
+    model.script.inputTypes = ["image"];
+    harness.dispose();
+    harness = withDrive();
+    const { reply } = await harness.execute("%%chat --audio clips/q.wav\nWhat is asked?");
+    assert.equal(reply?.content.status, "error");
+    assert.equal(reply?.content.ename, "UnsupportedInputError");
+    assert.match(reply?.content.evalue, /cannot take audio input in this browser/);
+    assert.equal(model.prompts.length, 0);
+  });
+
+  it("rejects attachments for backends that only take text", async () => {
+    harness.dispose();
+    harness = withDrive({ model: "mock" });
+    const { reply } = await harness.execute("%%chat --image figures/plot.png\nDescribe it");
+    assert.equal(reply?.content.ename, "UnsupportedInputError");
+    assert.match(reply?.content.evalue, /Mock echo backend does not take image input/);
+  });
+
+  it("rejects files of the wrong type and cells without an image", async () => {
+    harness.dispose();
+    harness = withDrive();
+    let { reply } = await harness.execute("%%chat --image notes.txt\nDescribe it");
+    assert.match(reply?.content.evalue, /notes.txt is not a supported image file/);
+    ({ reply } = await harness.execute("%%chat --image out:4\nDescribe it"));
+    assert.match(reply?.content.evalue, /No cell with execution count 4/);
+  });
+});
+
+describe("transcripts", () => {
+  // A contents drive held in memory
+  const files = new Map<string, string>();
+  const drive = {
+    read: async (path: string) => {
+      const text = files.get(path);
+      if (text === undefined) throw new Error(`No file ${path}`);
+      return text;
+    },
+    readBinary: async (path: string) => new Blob([files.get(path) ?? ""]),
+    list: async () => [],
+    write: async (path: string, content: string) => {
+      files.set(path, content);
+    },
+  };
+
+  beforeEach(() => {
+    files.clear();
+    harness.dispose();
+    harness = new KernelHarness({ drive });
+  });
+
+  it("round-trips replies with role headings and markers through Markdown", async () => {
+    const tricky = "Plan:\n\n## Summary\n\nDone.\n\n## User\n\n<!-- built-in-chat:User -->\n\\<!-- built-in-chat:Assistant -->";
+    model.reply(tricky, "Next.");
+    await harness.execute("Write a plan");
+    await harness.execute("%export md chat.md");
+    assert.match(files.get("chat.md")!, /^## Summary$/m);
+
+    const { reply } = await harness.execute("%import chat.md copy");
+    assert.equal(reply?.content.status, "ok");
+    await harness.execute("%%chat copy\nAnd then?");
+    assert.deepEqual(model.sessions.at(-1)?.options.initialPrompts, [
+      { role: "user", content: "Write a plan" },
+      { role: "assistant", content: tricky },
+    ]);
+  });
+
+  it("imports a kernel-run notebook's results and skips magic cells", async () => {
+    const cell = (source: string, outputs: object[]) => ({ cell_type: "code", execution_count: 1, metadata: {}, source, outputs });
+    files.set(
+      "run.ipynb",
+      JSON.stringify({
+        cells: [
+          cell("%temperature 0.3", [{ output_type: "stream", name: "stdout", text: "temperature = 0.3\n" }]),
+          cell("%topk 4\nWhat is 2+2?", [
+            { output_type: "display_data", data: { "text/plain": "" }, metadata: {} },
+            { output_type: "execute_result", execution_count: 2, data: { "text/markdown": "4", "text/plain": "4" }, metadata: {} },
+          ]),
+          cell("%%chat other\nAnd 3+3?", [
+            { output_type: "display_data", data: { "text/plain": "" }, metadata: {} },
+            { output_type: "execute_result", execution_count: 3, data: { "text/markdown": "6", "text/plain": "6" }, metadata: {} },
+          ]),
+        ],
+        metadata: {},
+        nbformat: 4,
+        nbformat_minor: 5,
+      })
+    );
+    model.reply("Done.");
+    await harness.execute("%import run.ipynb");
+    await harness.execute("Thanks");
+    assert.deepEqual(model.sessions.at(-1)?.options.initialPrompts, [
+      { role: "user", content: "What is 2+2?" },
+      { role: "assistant", content: "4" },
+      { role: "user", content: "And 3+3?" },
+      { role: "assistant", content: "6" },
+    ]);
+  });
+});
+
+describe("other shell requests", () => {
+  it("answers complete, inspect and is_complete requests", async () => {
+    const complete = await harness.request("complete_request", { code: "Hel", cursor_pos: 3 });
+    assert.equal(complete.reply?.header.msg_type, "complete_reply");
+    assert.deepEqual(complete.reply?.content.matches, []);
+    assert.equal(complete.reply?.content.cursor_start, 3);
+
+    const inspect = await harness.request("inspect_request", { code: "x", cursor_pos: 1, detail_level: 0 });
+    assert.equal(inspect.reply?.content.found, false);
+
+    const isComplete = await harness.request("is_complete_request", { code: "Hello" });
+    assert.equal(isComplete.reply?.content.status, "complete");
+  });
+
+  it("answers comm_info_request, which BaseKernel ignores", async () => {
+    const { reply, messages } = await harness.request("comm_info_request", { target_name: "built-in-chat" });
+    assert.equal(reply?.header.msg_type, "comm_info_reply");
+    assert.deepEqual(reply?.content.comms, {});
+    assert.deepEqual(
+      messages.map(m => m.header.msg_type === "status" ? m.content.execution_state : m.header.msg_type),
+      ["busy", "comm_info_reply", "idle"]
+    );
+  });
+
+  it("releases the model session on shutdown_request", async () => {
+    model.reply("Hi.");
+    await harness.execute("Hello");
+    const { reply } = await harness.request("shutdown_request", { restart: false }, "control");
+
+    assert.equal(reply?.header.msg_type, "shutdown_reply");
+    assert.deepEqual(reply?.content, { status: "ok", restart: false });
+    assert.equal(model.sessions[0].destroyed, true);
+  });
+
+  it("releases the model session when disposed", async () => {
+    model.reply("Hi.");
+    await harness.execute("Hello");
+    harness.dispose();
+    assert.equal(model.sessions[0].destroyed, true);
+  });
+
+  it("answers history_request from the conversation log", async () => {
+    model.reply("Hi there.");
+    await harness.execute("Hello");
+    const { reply, messages } = await harness.request("history_request", { hist_access_type: "tail", n: 10, output: true, raw: true });
+
+    assert.equal(reply?.content.status, "ok");
+    assert.deepEqual(
+      messages.map(m => m.header.msg_type === "status" ? m.content.execution_state : m.header.msg_type),
+      ["busy", "history_reply", "idle"]
+    );
+    const [[, line, [input, output]]] = reply?.content.history;
+    assert.equal(line, 1);
+    assert.equal(input, "Hello");
+    assert.equal(output, "Hi there.");
+  });
+
+  it("keeps executes without store_history out of {{ out:N }} and history", async () => {
+    model.reply("Hi there.", "Shh.", "Hmm.", "Done.");
+    await harness.execute("Hello");
+    await harness.execute("Quietly", { silent: true, store_history: false });
+    await harness.execute("Unnumbered", { store_history: undefined });
+    await harness.execute("Repeat: {{ out:1 }}");
+    assert.equal(model.prompts[3], "Repeat: Hi there.");
+
+    const { reply } = await harness.request("history_request", { hist_access_type: "tail", n: 10, output: false, raw: true });
+    assert.deepEqual(
+      reply?.content.history.map(([, line, input]: [number, number, string]) => [line, input]),
+      [[1, "Hello"], [2, "Repeat: {{ out:1 }}"]]
+    );
+  });
+});
+
+describe("built-in-chat comm", () => {
+  it("streams a prompt back as chunk and done messages", async () => {
+    model.reply({ chunks: ["Hi", "!"] });
+    const open = await harness.request("comm_open", { comm_id: "c1", target_name: "built-in-chat", data: {} });
+    assert.equal(ofType(open.messages, "comm_close").length, 0);
+
+    const { messages } = await harness.request("comm_msg", { comm_id: "c1", data: { type: "prompt", id: "p1", prompt: "Hey" } });
+    const data = ofType(messages, "comm_msg").map(m => m.content.data);
+    assert.deepEqual(
+      data.filter(d => d.type === "chunk").map(d => d.text),
+      ["Hi", "!"]
+    );
+    assert.deepEqual(data.at(-1), { type: "done", id: "p1", reply: "Hi!" });
+  });
+
+  it("shares a named conversation with the notebook and records its turns", async () => {
+    model.reply("From the cell.", "From the panel.");
+    await harness.execute("Cell prompt");
+    await harness.request("comm_open", { comm_id: "c2", target_name: "built-in-chat", data: { conversation: "default" } });
+
+    const transcript = await harness.request("comm_msg", { comm_id: "c2", data: { type: "transcript", id: "t" } });
+    assert.deepEqual(ofType(transcript.messages, "comm_msg")[0].content.data.messages, [
+      { role: "user", content: "Cell prompt" },
+      { role: "assistant", content: "From the cell." },
+    ]);
+
+    await harness.request("comm_msg", { comm_id: "c2", data: { type: "prompt", id: "p2", prompt: "Panel prompt" } });
+    assert.equal(model.sessions.length, 1);
+    const { reply } = await harness.request("history_request", { hist_access_type: "tail", n: 10, output: true, raw: true });
+    assert.deepEqual(
+      reply?.content.history.map(([, line, [input]]: any) => [line, input]),
+      [
+        [1, "Cell prompt"],
+        [0, "Panel prompt"],
+      ]
+    );
+  });
+});
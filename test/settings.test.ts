@@ -0,0 +1,54 @@
+// built-in-chat/test/settings.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { KernelSpecEntry, kernelSpecEntries, syncKernelSpecs } from "../src/settings.js";
+
+// Stands in for IKernelSpecs: registering a name again replaces it
+class FakeKernelSpecs {
+  readonly specs = new Map<string, { spec: any; create: (options: any) => Promise<any> }>();
+
+  register(options: { spec: any; create: (options: any) => Promise<any> }): void {
+    this.specs.set(options.spec.name, options);
+  }
+}
+
+describe("kernelSpecEntries", () => {
+  it("applies the backend setting to the main kernelspec and to personas", () => {
+    const entries = kernelSpecEntries({ backend: "openai:llama3.2", personas: [{ name: "terse", displayName: "Terse" }] });
+    const models = Object.fromEntries(entries.map(e => [e.name, e.options.model]));
+    assert.deepEqual(models, {
+      "built-in-chat": "openai:llama3.2",
+      "built-in-chat-openai": "openai",
+      "built-in-chat-persona-terse": "openai:llama3.2",
+    });
+    assert.equal(kernelSpecEntries({}).find(e => e.name === "built-in-chat")?.options.model, "chrome");
+  });
+});
+
+describe("syncKernelSpecs", () => {
+  it("keeps a removed persona registered but refuses to start it", async () => {
+    const kernelspecs = new FakeKernelSpecs();
+    const registered = new Set<string>();
+    const created: string[] = [];
+    const create = async (entry: KernelSpecEntry) => {
+      created.push(entry.name);
+      return {};
+    };
+
+    syncKernelSpecs(kernelspecs, kernelSpecEntries({ personas: [{ name: "terse", displayName: "Terse" }] }), registered, create);
+    syncKernelSpecs(kernelspecs, kernelSpecEntries({}), registered, create);
+
+    const removed = kernelspecs.specs.get("built-in-chat-persona-terse")!;
+    assert.equal(removed.spec.display_name, "Built-in AI: terse (removed)");
+    await assert.rejects(removed.create({}), /was removed from the Built-in AI Chat settings/);
+
+    await kernelspecs.specs.get("built-in-chat")!.create({});
+    assert.deepEqual(created, ["built-in-chat"]);
+
+    // Adding the persona back makes it work again
+    syncKernelSpecs(kernelspecs, kernelSpecEntries({ personas: [{ name: "terse", displayName: "Terse" }] }), registered, create);
+    await kernelspecs.specs.get("built-in-chat-persona-terse")!.create({});
+    assert.equal(kernelspecs.specs.get("built-in-chat-persona-terse")!.spec.display_name, "Built-in AI: Terse");
+  });
+});